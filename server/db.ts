@@ -122,5 +122,113 @@ export async function initDb(): Promise<void> {
   await pool.query(`ALTER TABLE scenarios ADD COLUMN IF NOT EXISTS disabled_stream_ids TEXT`);
   await pool.query(`ALTER TABLE scenarios ADD COLUMN IF NOT EXISTS stream_overrides TEXT`);
 
+  // v1.7: Credit card payment due day
+  await pool.query(`ALTER TABLE accounts ADD COLUMN IF NOT EXISTS due_day_of_month INTEGER`);
+
+  // v1.7: Link loan accounts to the stream that pays them
+  await pool.query(`ALTER TABLE accounts ADD COLUMN IF NOT EXISTS payment_stream_id TEXT`);
+
+  // v1.7: Growth on savings and investment accounts
+  await pool.query(`ALTER TABLE accounts ADD COLUMN IF NOT EXISTS growth_rate REAL`);
+  await pool.query(`ALTER TABLE accounts ADD COLUMN IF NOT EXISTS compounding TEXT`);
+
+  // v1.7: Overdraft fees and protection on checking accounts (JSON)
+  await pool.query(`ALTER TABLE accounts ADD COLUMN IF NOT EXISTS overdraft TEXT`);
+
+  // v1.7: Month-interval frequencies (every N months)
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS interval_months INTEGER`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS interval_months INTEGER`);
+
+  // v1.7: Weekday-of-month and last-business-day rules
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS month_day_rule TEXT`);
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS weekday_ordinal INTEGER`);
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS weekday INTEGER`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS month_day_rule TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS weekday_ordinal INTEGER`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS weekday INTEGER`);
+
+  // v1.7: Weekend/holiday shifting and custom bank holidays
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS business_day_shift TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS business_day_shift TEXT`);
+  await pool.query(`ALTER TABLE scenarios ADD COLUMN IF NOT EXISTS custom_holidays TEXT`);
+
+  // v1.7: Configurable semimonthly pay days (JSON pair)
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS semimonthly_days TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS semimonthly_days TEXT`);
+
+  // v1.7: Raises and inflation
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS escalation_rate REAL`);
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS escalation_mode TEXT`);
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS escalation_month INTEGER`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS escalation_rate REAL`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS escalation_mode TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS escalation_month INTEGER`);
+  await pool.query(`ALTER TABLE scenarios ADD COLUMN IF NOT EXISTS inflation_rate REAL`);
+
+  // v1.7: Dated step changes to a stream's amount (JSON list)
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS amount_changes TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS amount_changes TEXT`);
+
+  // v1.7: Percentage-of-another-stream streams
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS percent_of TEXT`);
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS percentage REAL`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS percent_of TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS percentage REAL`);
+
+  // v1.7: Gross-to-net paycheck deductions (JSON)
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS paycheck TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS paycheck TEXT`);
+
+  // v1.7: Amount ranges for Monte Carlo forecasts (JSON)
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS amount_range TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS amount_range TEXT`);
+
+  // v1.7: User-defined spending categories and tags (tags as JSON list)
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS budget_category TEXT`);
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS tags TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS budget_category TEXT`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS tags TEXT`);
+
+  // v1.7: Transfers into a card or loan that stop at the balance owed
+  await pool.query(`ALTER TABLE streams ADD COLUMN IF NOT EXISTS pay_up_to_balance BOOLEAN`);
+  await pool.query(`ALTER TABLE decision_add_streams ADD COLUMN IF NOT EXISTS pay_up_to_balance BOOLEAN`);
+
+  // v1.7: Savings goals (JSON list)
+  await pool.query(`ALTER TABLE scenarios ADD COLUMN IF NOT EXISTS goals TEXT`);
+
+  // v1.7: Sweep rules between cash accounts (JSON list)
+  await pool.query(`ALTER TABLE scenarios ADD COLUMN IF NOT EXISTS sweep_rules TEXT`);
+
+  // v1.7: Explicit "last day of month" option. The UI used to cap the day
+  // at 28, so day 28 was the stand-in for month-end — move those over once.
+  await runDataMigration('v1.7-day-28-to-last-day', async () => {
+    for (const table of ['streams', 'decision_add_streams']) {
+      await pool.query(
+        `UPDATE ${table} SET month_day_rule = 'last-day', day_of_month = NULL
+         WHERE day_of_month = 28 AND month_day_rule IS NULL
+           AND frequency IN ('monthly', 'quarterly', 'yearly', 'every-n-months')`
+      );
+    }
+  });
+
   console.log('Database initialized (PostgreSQL)');
 }
+
+/**
+ * Run a one-off data migration once.
+ *
+ * The schema changes above are safe to repeat on every start; rewriting
+ * existing rows isn't, so each data migration is recorded by name.
+ */
+async function runDataMigration(name: string, migrate: () => Promise<void>): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS data_migrations (
+      name TEXT PRIMARY KEY,
+      ran_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+  const { rowCount } = await pool.query('SELECT 1 FROM data_migrations WHERE name = $1', [name]);
+  if (rowCount) return;
+  await migrate();
+  await pool.query('INSERT INTO data_migrations (name) VALUES ($1)', [name]);
+}
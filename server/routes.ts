@@ -34,6 +34,10 @@ interface ScenarioRow {
   safety_buffer: number;
   disabled_stream_ids: string | null;
   stream_overrides: string | null;
+  custom_holidays: string | null;
+  inflation_rate: number | null;
+  goals: string | null;
+  sweep_rules: string | null;
   updated_at: string | null;
 }
 
@@ -51,6 +55,23 @@ interface StreamRow {
   day_of_month: number | null;
   anchor_date: string | null;
   category: string | null;
+  interval_months: number | null;
+  month_day_rule: string | null;
+  weekday_ordinal: number | null;
+  weekday: number | null;
+  business_day_shift: string | null;
+  semimonthly_days: string | null;
+  escalation_rate: number | null;
+  escalation_mode: string | null;
+  escalation_month: number | null;
+  amount_changes: string | null;
+  percent_of: string | null;
+  percentage: number | null;
+  paycheck: string | null;
+  amount_range: string | null;
+  budget_category: string | null;
+  tags: string | null;
+  pay_up_to_balance: boolean | null;
 }
 
 interface AccountRow {
@@ -62,6 +83,11 @@ interface AccountRow {
   interest_rate: number | null;
   minimum_payment: number | null;
   credit_limit: number | null;
+  due_day_of_month: number | null;
+  payment_stream_id: string | null;
+  growth_rate: number | null;
+  compounding: string | null;
+  overdraft: string | null;
 }
 
 function rowToAccount(row: AccountRow) {
@@ -73,6 +99,11 @@ function rowToAccount(row: AccountRow) {
     ...(row.interest_rate != null && { interestRate: row.interest_rate }),
     ...(row.minimum_payment != null && { minimumPayment: row.minimum_payment }),
     ...(row.credit_limit != null && { creditLimit: row.credit_limit }),
+    ...(row.due_day_of_month != null && { dueDayOfMonth: row.due_day_of_month }),
+    ...(row.payment_stream_id && { paymentStreamId: row.payment_stream_id }),
+    ...(row.growth_rate != null && { growthRate: row.growth_rate }),
+    ...(row.compounding && { compounding: row.compounding }),
+    ...(row.overdraft && { overdraft: safeJsonParse(row.overdraft, {}) }),
   };
 }
 
@@ -98,7 +129,24 @@ function rowToStream(row: StreamRow) {
     ...(row.end_date && { endDate: row.end_date }),
     ...(row.day_of_month != null && { dayOfMonth: row.day_of_month }),
     ...(row.anchor_date && { anchorDate: row.anchor_date }),
+    ...(row.interval_months != null && { intervalMonths: row.interval_months }),
+    ...(row.month_day_rule && { monthDayRule: row.month_day_rule }),
+    ...(row.weekday_ordinal != null && { weekdayOrdinal: row.weekday_ordinal }),
+    ...(row.weekday != null && { weekday: row.weekday }),
+    ...(row.business_day_shift && { businessDayShift: row.business_day_shift }),
+    ...(row.semimonthly_days && { semimonthlyDays: safeJsonParse(row.semimonthly_days, [1, 15]) }),
+    ...(row.escalation_rate != null && { escalationRate: row.escalation_rate }),
+    ...(row.escalation_mode && { escalationMode: row.escalation_mode }),
+    ...(row.escalation_month != null && { escalationMonth: row.escalation_month }),
+    ...(row.amount_changes && { amountChanges: safeJsonParse(row.amount_changes, []) }),
+    ...(row.percent_of && { percentOf: row.percent_of }),
+    ...(row.percentage != null && { percentage: row.percentage }),
+    ...(row.paycheck && { paycheck: safeJsonParse(row.paycheck, {}) }),
+    ...(row.amount_range && { amountRange: safeJsonParse(row.amount_range, {}) }),
     ...(row.category && { category: row.category }),
+    ...(row.budget_category && { budgetCategory: row.budget_category }),
+    ...(row.tags && { tags: safeJsonParse(row.tags, []) }),
+    ...(row.pay_up_to_balance && { payUpToBalance: true }),
   };
 }
 
@@ -115,6 +163,10 @@ function rowToScenario(row: ScenarioRow, streams: StreamRow[], accounts: Account
     accounts: accounts.map(rowToAccount),
     ...(row.disabled_stream_ids && { disabledStreamIds: safeJsonParse(row.disabled_stream_ids, []) }),
     ...(row.stream_overrides && { streamOverrides: safeJsonParse(row.stream_overrides, {}) }),
+    ...(row.custom_holidays && { customHolidays: safeJsonParse(row.custom_holidays, []) }),
+    ...(row.inflation_rate != null && { inflationRate: row.inflation_rate }),
+    ...(row.goals && { goals: safeJsonParse(row.goals, []) }),
+    ...(row.sweep_rules && { sweepRules: safeJsonParse(row.sweep_rules, []) }),
   };
 }
 
@@ -175,8 +227,8 @@ async function insertDecisionChildren(
 ) {
   for (const stream of config.addStreams || []) {
     await client.query(
-      `INSERT INTO decision_add_streams (id, decision_id, name, amount, type, frequency, account, target_account, start_date, end_date, day_of_month, anchor_date, category)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      `INSERT INTO decision_add_streams (id, decision_id, name, amount, type, frequency, account, target_account, start_date, end_date, day_of_month, anchor_date, category, interval_months, month_day_rule, weekday_ordinal, weekday, business_day_shift, semimonthly_days, escalation_rate, escalation_mode, escalation_month, amount_changes, percent_of, percentage, paycheck, amount_range, budget_category, tags, pay_up_to_balance)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30)`,
       [
         stream.id,
         config.id,
@@ -191,6 +243,23 @@ async function insertDecisionChildren(
         stream.dayOfMonth ?? null,
         stream.anchorDate || null,
         stream.category || null,
+        stream.intervalMonths ?? null,
+        stream.monthDayRule || null,
+        stream.weekdayOrdinal ?? null,
+        stream.weekday ?? null,
+        stream.businessDayShift || null,
+        stream.semimonthlyDays ? JSON.stringify(stream.semimonthlyDays) : null,
+        stream.escalationRate ?? null,
+        stream.escalationMode || null,
+        stream.escalationMonth ?? null,
+        stream.amountChanges?.length ? JSON.stringify(stream.amountChanges) : null,
+        stream.percentOf || null,
+        stream.percentage ?? null,
+        stream.paycheck ? JSON.stringify(stream.paycheck) : null,
+        stream.amountRange ? JSON.stringify(stream.amountRange) : null,
+        stream.budgetCategory || null,
+        stream.tags?.length ? JSON.stringify(stream.tags) : null,
+        stream.payUpToBalance ?? null,
       ]
     );
   }
@@ -212,8 +281,8 @@ async function insertDecisionChildren(
 
 async function upsertScenario(client: PoolClient, config: any) {
   await client.query(
-    `INSERT INTO scenarios (id, name, start_date, end_date, checking_balance, savings_balance, safety_buffer, disabled_stream_ids, stream_overrides, updated_at)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+    `INSERT INTO scenarios (id, name, start_date, end_date, checking_balance, savings_balance, safety_buffer, disabled_stream_ids, stream_overrides, custom_holidays, inflation_rate, goals, sweep_rules, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())
      ON CONFLICT (id) DO UPDATE SET
        name = EXCLUDED.name,
        start_date = EXCLUDED.start_date,
@@ -223,6 +292,10 @@ async function upsertScenario(client: PoolClient, config: any) {
        safety_buffer = EXCLUDED.safety_buffer,
        disabled_stream_ids = EXCLUDED.disabled_stream_ids,
        stream_overrides = EXCLUDED.stream_overrides,
+       custom_holidays = EXCLUDED.custom_holidays,
+       inflation_rate = EXCLUDED.inflation_rate,
+       goals = EXCLUDED.goals,
+       sweep_rules = EXCLUDED.sweep_rules,
        updated_at = NOW()`,
     [
       config.id,
@@ -234,6 +307,10 @@ async function upsertScenario(client: PoolClient, config: any) {
       config.safetyBuffer,
       config.disabledStreamIds ? JSON.stringify(config.disabledStreamIds) : null,
       config.streamOverrides ? JSON.stringify(config.streamOverrides) : null,
+      config.customHolidays ? JSON.stringify(config.customHolidays) : null,
+      config.inflationRate ?? null,
+      config.goals ? JSON.stringify(config.goals) : null,
+      config.sweepRules ? JSON.stringify(config.sweepRules) : null,
     ]
   );
 
@@ -242,8 +319,8 @@ async function upsertScenario(client: PoolClient, config: any) {
 
   for (const stream of config.streams || []) {
     await client.query(
-      `INSERT INTO streams (id, scenario_id, name, amount, type, frequency, account, target_account, start_date, end_date, day_of_month, anchor_date, category)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      `INSERT INTO streams (id, scenario_id, name, amount, type, frequency, account, target_account, start_date, end_date, day_of_month, anchor_date, category, interval_months, month_day_rule, weekday_ordinal, weekday, business_day_shift, semimonthly_days, escalation_rate, escalation_mode, escalation_month, amount_changes, percent_of, percentage, paycheck, amount_range, budget_category, tags, pay_up_to_balance)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30)`,
       [
         stream.id,
         config.id,
@@ -258,14 +335,31 @@ async function upsertScenario(client: PoolClient, config: any) {
         stream.dayOfMonth ?? null,
         stream.anchorDate || null,
         stream.category || null,
+        stream.intervalMonths ?? null,
+        stream.monthDayRule || null,
+        stream.weekdayOrdinal ?? null,
+        stream.weekday ?? null,
+        stream.businessDayShift || null,
+        stream.semimonthlyDays ? JSON.stringify(stream.semimonthlyDays) : null,
+        stream.escalationRate ?? null,
+        stream.escalationMode || null,
+        stream.escalationMonth ?? null,
+        stream.amountChanges?.length ? JSON.stringify(stream.amountChanges) : null,
+        stream.percentOf || null,
+        stream.percentage ?? null,
+        stream.paycheck ? JSON.stringify(stream.paycheck) : null,
+        stream.amountRange ? JSON.stringify(stream.amountRange) : null,
+        stream.budgetCategory || null,
+        stream.tags?.length ? JSON.stringify(stream.tags) : null,
+        stream.payUpToBalance ?? null,
       ]
     );
   }
 
   for (const acct of config.accounts || []) {
     await client.query(
-      `INSERT INTO accounts (id, scenario_id, name, account_type, balance, interest_rate, minimum_payment, credit_limit)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      `INSERT INTO accounts (id, scenario_id, name, account_type, balance, interest_rate, minimum_payment, credit_limit, due_day_of_month, payment_stream_id, growth_rate, compounding, overdraft)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
       [
         acct.id,
         config.id,
@@ -275,6 +369,11 @@ async function upsertScenario(client: PoolClient, config: any) {
         acct.interestRate ?? null,
         acct.minimumPayment ?? null,
         acct.creditLimit ?? null,
+        acct.dueDayOfMonth ?? null,
+        acct.paymentStreamId || null,
+        acct.growthRate ?? null,
+        acct.compounding || null,
+        acct.overdraft ? JSON.stringify(acct.overdraft) : null,
       ]
     );
   }
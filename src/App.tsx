@@ -7,7 +7,7 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { ScenarioConfig, DecisionConfig, CashStream, Account } from './engine';
+import type { ScenarioConfig, DecisionConfig, CashStream, Account, Goal, SweepRule, StressTestConfig } from './engine';
 import { useForecaster } from './hooks/useForecaster';
 import { apiStore } from './store/apiClient';
 import type { ScenarioSummary } from './store/types';
@@ -38,11 +38,16 @@ function App() {
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saveRetrigger, setSaveRetrigger] = useState(0);
 
-  const { baselineResult, decisionForecasts } = useForecaster(
-    baseline,
-    decisions,
-    enabledDecisionIds
-  );
+  const [stressTests, setStressTests] = useState<StressTestConfig[]>([]);
+  const [runwayStoppedIds, setRunwayStoppedIds] = useState<string[] | null>(null);
+
+  const {
+    baselineResult,
+    baselineRunway,
+    decisionForecasts,
+    stressForecasts,
+    baselineSimulation,
+  } = useForecaster(baseline, decisions, enabledDecisionIds, stressTests, runwayStoppedIds);
 
   const saveInFlight = useRef(false);
   const savePending = useRef(false);
@@ -94,6 +99,8 @@ function App() {
     setBaseline(scenario);
     setDecisions(scenarioDecisions);
     setEnabledDecisionIds(new Set(scenarioDecisions.map((d) => d.id)));
+    setStressTests([]);
+    setRunwayStoppedIds(null);
   }
 
   async function refreshScenarioList() {
@@ -244,9 +251,22 @@ function App() {
     });
   }, []);
 
-  const handleAddDecision = useCallback(() => {
+  const handleHolidaysChange = useCallback((holidays: string[]) => {
+    setBaseline((prev) => (prev ? { ...prev, customHolidays: holidays } : prev));
+  }, []);
+
+  const handleGoalsChange = useCallback((goals: Goal[]) => {
+    setBaseline((prev) => (prev ? { ...prev, goals } : prev));
+  }, []);
+
+  const handleSweepRulesChange = useCallback((sweepRules: SweepRule[]) => {
+    setBaseline((prev) => (prev ? { ...prev, sweepRules } : prev));
+  }, []);
+
+  // Adds a blank decision, or one already built (e.g. by the debt payoff planner)
+  const handleAddDecision = useCallback((prebuilt?: DecisionConfig) => {
     if (!baseline) return;
-    const newDecision: DecisionConfig = {
+    const newDecision: DecisionConfig = prebuilt ?? {
       id: crypto.randomUUID(),
       name: 'New Decision',
       baselineId: baseline.id,
@@ -329,6 +349,8 @@ function App() {
     setBaseline(fresh);
     setDecisions([firstDecision]);
     setEnabledDecisionIds(new Set([firstDecision.id]));
+    setStressTests([]);
+    setRunwayStoppedIds(null);
   }, [baseline, decisions]);
 
   const handleDeleteScenario = useCallback(async (scenarioId: string) => {
@@ -354,12 +376,18 @@ function App() {
         biweekly: 26 / 12,
         semimonthly: 2,
         monthly: 1,
+        quarterly: 1 / 3,
+        yearly: 1 / 12,
         'one-time': 0,
       };
+      const multiplierFor = (stream: CashStream) =>
+        stream.frequency === 'every-n-months'
+          ? 1 / Math.max(1, stream.intervalMonths ?? 1)
+          : MONTHLY_MULTIPLIER[stream.frequency] ?? 1;
 
       let netMonthly = 0;
       for (const stream of decision.addStreams) {
-        const mult = MONTHLY_MULTIPLIER[stream.frequency] ?? 1;
+        const mult = multiplierFor(stream);
         if (stream.type === 'income') {
           netMonthly += stream.amount * mult;
         } else if (stream.type === 'expense') {
@@ -369,7 +397,7 @@ function App() {
       for (const removedId of decision.removeStreamIds) {
         const baseStream = scenario.streams.find((s) => s.id === removedId);
         if (baseStream) {
-          const mult = MONTHLY_MULTIPLIER[baseStream.frequency] ?? 1;
+          const mult = multiplierFor(baseStream);
           if (baseStream.type === 'income') {
             netMonthly -= baseStream.amount * mult;
           } else if (baseStream.type === 'expense') {
@@ -422,6 +450,8 @@ function App() {
     setBaseline(fresh);
     setDecisions([]);
     setEnabledDecisionIds(new Set());
+    setStressTests([]);
+    setRunwayStoppedIds(null);
   }, []);
 
   if (!isLoaded || !baseline) {
@@ -454,6 +484,9 @@ function App() {
           onAddAccount={handleAddAccount}
           onUpdateAccount={handleUpdateAccount}
           onDeleteAccount={handleDeleteAccount}
+          onHolidaysChange={handleHolidaysChange}
+          onGoalsChange={handleGoalsChange}
+          onSweepRulesChange={handleSweepRulesChange}
         />
       )}
       {activePage === 'scenarios' && (
@@ -484,7 +517,14 @@ function App() {
           decisions={decisions}
           enabledDecisionIds={enabledDecisionIds}
           baselineResult={baselineResult}
+          baselineRunway={baselineRunway}
+          runwayStoppedIds={runwayStoppedIds}
+          onRunwayStoppedIdsChange={setRunwayStoppedIds}
           decisionForecasts={decisionForecasts}
+          stressTests={stressTests}
+          stressForecasts={stressForecasts}
+          onStressTestsChange={setStressTests}
+          baselineSimulation={baselineSimulation}
           scenarioList={scenarioList}
           onNavigate={setActivePage}
           onSwitchScenario={handleSwitchScenario}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { v4 as uuid } from 'uuid';
-import type { Account, FinancialAccountType } from '../engine';
+import type { Account, CashStream, Compounding, FinancialAccountType, OverdraftFeeMode } from '../engine';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -21,6 +21,7 @@ import { cn } from '@/lib/utils';
 
 interface AccountsSectionProps {
   accounts: Account[];
+  streams: CashStream[]; // Candidates for a loan's payment stream
   onAdd: (account: Account) => void;
   onUpdate: (account: Account) => void;
   onDelete: (id: string) => void;
@@ -46,11 +47,15 @@ function isDebt(type: FinancialAccountType): boolean {
   return type === 'credit-card' || type === 'loan';
 }
 
+function canGrow(type: FinancialAccountType): boolean {
+  return type === 'savings' || type === 'investment';
+}
+
 function formatCurrency(value: number): string {
   return '$' + Math.round(Math.abs(value)).toLocaleString();
 }
 
-export function AccountsSection({ accounts, onAdd, onUpdate, onDelete }: AccountsSectionProps) {
+export function AccountsSection({ accounts, streams, onAdd, onUpdate, onDelete }: AccountsSectionProps) {
   const [quickName, setQuickName] = useState('');
   const [quickType, setQuickType] = useState<FinancialAccountType>('checking');
   const [quickBalance, setQuickBalance] = useState('');
@@ -114,6 +119,8 @@ export function AccountsSection({ accounts, onAdd, onUpdate, onDelete }: Account
             <AccountEditor
               key={account.id}
               account={account}
+              accounts={accounts}
+              streams={streams}
               onSave={(updated) => { onUpdate(updated); setEditingId(null); }}
               onCancel={() => setEditingId(null)}
               onDelete={() => { onDelete(account.id); setEditingId(null); }}
@@ -122,6 +129,7 @@ export function AccountsSection({ accounts, onAdd, onUpdate, onDelete }: Account
             <AccountCard
               key={account.id}
               account={account}
+              paymentStream={streams.find((s) => s.id === account.paymentStreamId)}
               onEdit={() => setEditingId(account.id)}
             />
           )
@@ -179,10 +187,11 @@ export function AccountsSection({ accounts, onAdd, onUpdate, onDelete }: Account
 
 interface AccountCardProps {
   account: Account;
+  paymentStream?: CashStream;
   onEdit: () => void;
 }
 
-function AccountCard({ account, onEdit }: AccountCardProps) {
+function AccountCard({ account, paymentStream, onEdit }: AccountCardProps) {
   const debt = isDebt(account.accountType);
   return (
     <Card
@@ -210,8 +219,24 @@ function AccountCard({ account, onEdit }: AccountCardProps) {
             {account.minimumPayment != null && (
               <span>{formatCurrency(account.minimumPayment)}/mo min</span>
             )}
+            {account.dueDayOfMonth != null && (
+              <span>due day {account.dueDayOfMonth}</span>
+            )}
           </div>
         )}
+        {canGrow(account.accountType) && account.growthRate != null && (
+          <p className="text-xs text-muted-foreground">
+            {account.growthRate}% {account.accountType === 'savings' ? 'APY' : 'expected return'}
+          </p>
+        )}
+        {paymentStream && (
+          <p className="text-xs text-muted-foreground truncate">Paid by {paymentStream.name}</p>
+        )}
+        {account.accountType === 'checking' && account.overdraft && (
+          <p className="text-xs text-muted-foreground">
+            {formatCurrency(account.overdraft.fee)} overdraft fee {account.overdraft.feeMode === 'per-day' ? 'per day' : 'per item'}
+          </p>
+        )}
         <span className="text-xs text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity">
           click to edit
         </span>
@@ -224,20 +249,38 @@ function AccountCard({ account, onEdit }: AccountCardProps) {
 
 interface AccountEditorProps {
   account: Account;
+  accounts: Account[]; // Candidates for a checking account's overdraft protection
+  streams: CashStream[];
   onSave: (account: Account) => void;
   onCancel: () => void;
   onDelete: () => void;
 }
 
-function AccountEditor({ account, onSave, onCancel, onDelete }: AccountEditorProps) {
+function AccountEditor({ account, accounts, streams, onSave, onCancel, onDelete }: AccountEditorProps) {
   const [name, setName] = useState(account.name);
   const [accountType, setAccountType] = useState(account.accountType);
   const [balance, setBalance] = useState(account.balance);
   const [interestRate, setInterestRate] = useState(account.interestRate ?? 0);
   const [minimumPayment, setMinimumPayment] = useState(account.minimumPayment ?? 0);
   const [creditLimit, setCreditLimit] = useState(account.creditLimit ?? 0);
+  const [dueDayOfMonth, setDueDayOfMonth] = useState(account.dueDayOfMonth ?? 0);
+  const [paymentStreamId, setPaymentStreamId] = useState(account.paymentStreamId ?? '');
+  const [growthRate, setGrowthRate] = useState(account.growthRate ?? 0);
+  const [compounding, setCompounding] = useState<Compounding>(account.compounding ?? 'monthly');
+  const [overdraftFee, setOverdraftFee] = useState(account.overdraft?.fee ?? 0);
+  const [overdraftFeeMode, setOverdraftFeeMode] = useState<OverdraftFeeMode>(account.overdraft?.feeMode ?? 'per-transaction');
+  const [dailyFeeCap, setDailyFeeCap] = useState(account.overdraft?.dailyFeeCap ?? 0);
+  const [protectionAccount, setProtectionAccount] = useState(account.overdraft?.protectionAccount ?? '');
+  const [protectionFee, setProtectionFee] = useState(account.overdraft?.protectionFee ?? 0);
 
   const debt = isDebt(accountType);
+  const isCard = accountType === 'credit-card';
+  const isLoan = accountType === 'loan';
+  const growing = canGrow(accountType);
+  const isChecking = accountType === 'checking';
+  const paymentCandidates = streams.filter((s) => s.type !== 'income');
+  const protectionCandidates = accounts.filter((a) => a.id !== account.id && !isDebt(a.accountType));
+  const hasOverdraftPolicy = overdraftFee > 0 || protectionAccount !== '';
 
   function handleSave() {
     onSave({
@@ -248,6 +291,18 @@ function AccountEditor({ account, onSave, onCancel, onDelete }: AccountEditorPro
       ...(debt && interestRate > 0 && { interestRate }),
       ...(debt && minimumPayment > 0 && { minimumPayment }),
       ...(debt && creditLimit > 0 && { creditLimit }),
+      ...(isCard && dueDayOfMonth > 0 && { dueDayOfMonth }),
+      ...(isLoan && paymentStreamId && { paymentStreamId }),
+      ...(growing && growthRate > 0 && { growthRate, compounding }),
+      ...(isChecking && hasOverdraftPolicy && {
+        overdraft: {
+          fee: overdraftFee,
+          feeMode: overdraftFeeMode,
+          ...(dailyFeeCap > 0 && { dailyFeeCap }),
+          ...(protectionAccount && { protectionAccount }),
+          ...(protectionAccount && protectionFee > 0 && { protectionFee }),
+        },
+      }),
     });
   }
 
@@ -295,6 +350,90 @@ function AccountEditor({ account, onSave, onCancel, onDelete }: AccountEditorPro
             </div>
           </>
         )}
+        {isCard && (
+          <div className="space-y-1">
+            <Label className="text-xs">Payment Due Day</Label>
+            <Input type="number" value={dueDayOfMonth || ''} onChange={(e) => setDueDayOfMonth(Number(e.target.value))} onKeyDown={handleKeyDown} min={1} max={31} placeholder="e.g. 25" className="h-8 tabular-nums" />
+          </div>
+        )}
+        {isLoan && (
+          <div className="space-y-1">
+            <Label className="text-xs">Payment Stream</Label>
+            <select
+              className="h-8 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+              value={paymentStreamId}
+              onChange={(e) => setPaymentStreamId(e.target.value)}
+            >
+              <option value="">Not linked</option>
+              {paymentCandidates.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">Payments split into interest and principal and stop at payoff</p>
+          </div>
+        )}
+        {growing && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">{accountType === 'savings' ? 'APY (%)' : 'Expected Annual Return (%)'}</Label>
+              <Input type="number" value={growthRate || ''} onChange={(e) => setGrowthRate(Number(e.target.value))} onKeyDown={handleKeyDown} min={0} step={0.1} placeholder={accountType === 'savings' ? 'e.g. 4.2' : 'e.g. 7'} className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Compounding</Label>
+              <select
+                className="h-8 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+                value={compounding}
+                onChange={(e) => setCompounding(e.target.value as Compounding)}
+              >
+                <option value="daily">Daily</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+          </>
+        )}
+        {isChecking && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">Overdraft Fee</Label>
+              <div className="flex gap-2">
+                <Input type="number" value={overdraftFee || ''} onChange={(e) => setOverdraftFee(Number(e.target.value))} onKeyDown={handleKeyDown} min={0} step={1} placeholder="e.g. 35" className="h-8 tabular-nums" />
+                <select
+                  className="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+                  value={overdraftFeeMode}
+                  onChange={(e) => setOverdraftFeeMode(e.target.value as OverdraftFeeMode)}
+                >
+                  <option value="per-transaction">per item</option>
+                  <option value="per-day">per day</option>
+                </select>
+              </div>
+            </div>
+            {overdraftFee > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs">Daily Fee Cap</Label>
+                <Input type="number" value={dailyFeeCap || ''} onChange={(e) => setDailyFeeCap(Number(e.target.value))} onKeyDown={handleKeyDown} min={0} step={1} placeholder="No cap" className="h-8 tabular-nums" />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs">Overdraft Protection</Label>
+              <select
+                className="h-8 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+                value={protectionAccount}
+                onChange={(e) => setProtectionAccount(e.target.value)}
+              >
+                <option value="">None</option>
+                {protectionCandidates.map((a) => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+            {protectionAccount && (
+              <div className="space-y-1">
+                <Label className="text-xs">Protection Transfer Fee</Label>
+                <Input type="number" value={protectionFee || ''} onChange={(e) => setProtectionFee(Number(e.target.value))} onKeyDown={handleKeyDown} min={0} step={1} placeholder="e.g. 10" className="h-8 tabular-nums" />
+              </div>
+            )}
+          </>
+        )}
         <div className="flex gap-2 pt-1">
           <Button size="sm" onClick={handleSave}>Save</Button>
           <Button size="sm" variant="outline" onClick={onCancel}>Cancel</Button>
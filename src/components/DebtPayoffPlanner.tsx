@@ -0,0 +1,193 @@
+/**
+ * Debt payoff planner: pick an extra monthly budget and a strategy, see
+ * when each debt is gone and what it costs in interest, then add the
+ * payments as a decision to see them in the forecast.
+ */
+
+import { useState } from 'react';
+import { v4 as uuid } from 'uuid';
+import { format, parseISO } from 'date-fns';
+import type { DecisionConfig, PayoffStrategy, ScenarioConfig } from '../engine';
+import { getLedgerAccounts, isDebtAccount, planDebtPayoff, payoffStreams } from '../engine';
+import { CalculatorInput } from './CalculatorInput';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '@/components/ui/table';
+
+interface DebtPayoffPlannerProps {
+  baseline: ScenarioConfig;
+  onAddDecision: (decision: DecisionConfig) => void;
+}
+
+const STRATEGY_OPTIONS: { value: PayoffStrategy; label: string }[] = [
+  { value: 'avalanche', label: 'Avalanche — highest interest first' },
+  { value: 'snowball', label: 'Snowball — smallest balance first' },
+  { value: 'custom', label: 'My own order' },
+];
+
+const STRATEGY_NAMES: Record<PayoffStrategy, string> = {
+  avalanche: 'Avalanche',
+  snowball: 'Snowball',
+  custom: 'Custom',
+};
+
+export function DebtPayoffPlanner({ baseline, onAddDecision }: DebtPayoffPlannerProps) {
+  const debts = getLedgerAccounts(baseline).filter((a) => isDebtAccount(a.accountType) && a.balance > 0);
+  const [extraPayment, setExtraPayment] = useState(200);
+  const [strategy, setStrategy] = useState<PayoffStrategy>('avalanche');
+  const [customOrder, setCustomOrder] = useState<string[]>([]);
+  const [showSchedule, setShowSchedule] = useState(false);
+
+  // Debts added since the order was last changed go to the end
+  const customList = [
+    ...customOrder.filter((id) => debts.some((d) => d.id === id)),
+    ...debts.filter((d) => !customOrder.includes(d.id)).map((d) => d.id),
+  ];
+  const plan = planDebtPayoff(baseline, { extraPayment, strategy, customOrder: customList });
+
+  function addAsDecision() {
+    onAddDecision({
+      id: uuid(),
+      name: `Debt payoff (${STRATEGY_NAMES[strategy]})`,
+      baselineId: baseline.id,
+      addStreams: payoffStreams(plan, baseline, uuid),
+      removeStreamIds: [],
+      modifyStreams: [],
+      checkingBalanceAdjustment: 0,
+      savingsBalanceAdjustment: 0,
+    });
+  }
+
+  if (debts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">
+        No credit cards or loans with a balance. Add them under Accounts on the Cash Flow page.
+      </p>
+    );
+  }
+
+  const nameOf = (id: string) => debts.find((d) => d.id === id)?.name ?? id;
+  const formatMonth = (iso: string) => format(parseISO(iso), 'MMM yyyy');
+
+  function moveUp(index: number) {
+    if (index === 0) return;
+    const next = [...customList];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    setCustomOrder(next);
+  }
+
+  return (
+    <Card className="p-5 gap-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-1 w-40">
+          <Label>Extra Each Month</Label>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+            <CalculatorInput
+              value={extraPayment}
+              onChange={setExtraPayment}
+              min={0}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent pl-7 pr-3 text-sm tabular-nums"
+            />
+          </div>
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label>Strategy</Label>
+          <select
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as PayoffStrategy)}
+          >
+            {STRATEGY_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {strategy === 'custom' && (
+        <ol className="flex flex-col gap-1 text-sm">
+          {customList.map((id, i) => (
+            <li key={id} className="flex items-center gap-2">
+              <span className="w-5 text-muted-foreground tabular-nums">{i + 1}.</span>
+              <span className="flex-1">{nameOf(id)}</span>
+              <Button variant="ghost" size="xs" disabled={i === 0} onClick={() => moveUp(i)}>
+                Move up
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="grid grid-cols-[repeat(auto-fill,minmax(160px,1fr))] gap-3 text-sm">
+        <div>
+          <p className="text-xs text-muted-foreground">Debt-free</p>
+          <p className="font-semibold">{plan.debtFreeDate ? formatMonth(plan.debtFreeDate) : 'Not within 50 years'}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Total interest</p>
+          <p className="font-semibold tabular-nums">${Math.round(plan.totalInterest).toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Monthly budget</p>
+          <p className="font-semibold tabular-nums">${plan.monthlyBudget.toLocaleString()}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1 text-[0.8125rem]">
+        {plan.order.map((id) => (
+          <div key={id} className="flex justify-between">
+            <span>{nameOf(id)}</span>
+            <span className="text-muted-foreground tabular-nums">
+              {plan.payoffDates[id] ? `paid off ${formatMonth(plan.payoffDates[id])}` : 'not paid off'}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          disabled={!plan.debtFreeDate}
+          onClick={addAsDecision}
+        >
+          Add as Decision
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setShowSchedule(!showSchedule)}>
+          {showSchedule ? 'Hide' : 'Show'} Month-by-Month
+        </Button>
+      </div>
+
+      {showSchedule && (
+        <div className="max-h-80 overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Month</TableHead>
+                {plan.order.map((id) => (
+                  <TableHead key={id} className="text-right">{nameOf(id)}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.months.map((m) => (
+                <TableRow key={m.month}>
+                  <TableCell className="whitespace-nowrap">{formatMonth(m.month)}</TableCell>
+                  {plan.order.map((id) => (
+                    <TableCell key={id} className="text-right tabular-nums">
+                      {m.payments[id] ? `$${m.payments[id].toLocaleString()}` : '—'}
+                      <span className="block text-xs text-muted-foreground">
+                        ${Math.round(m.balances[id]).toLocaleString()} left
+                      </span>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -3,14 +3,16 @@
  */
 
 import { useState, useEffect } from 'react';
-import type { DecisionConfig } from '../engine';
+import type { Account, DecisionConfig, ScenarioConfig } from '../engine';
 import { DecisionPanel } from './DecisionPanel';
-import { DECISION_COLORS } from './ForecastChart';
+import { DECISION_COLORS } from '@/lib/chartColors';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 
 interface DecisionListProps {
+  baseline: ScenarioConfig;
   decisions: DecisionConfig[];
+  accounts: Account[];
   enabledDecisionIds: Set<string>;
   allDecisionIds: string[];
   onAdd: () => void;
@@ -20,7 +22,9 @@ interface DecisionListProps {
 }
 
 export function DecisionList({
+  baseline,
   decisions,
+  accounts,
   enabledDecisionIds,
   allDecisionIds,
   onAdd,
@@ -47,7 +51,7 @@ export function DecisionList({
   if (decisions.length === 0) {
     return (
       <div className="text-center py-8">
-        <Button size="lg" onClick={onAdd}>
+        <Button size="lg" onClick={() => onAdd()}>
           What if...?
         </Button>
         <p className="text-sm text-muted-foreground mt-2">
@@ -103,6 +107,8 @@ export function DecisionList({
               <div className="border-t">
                 <DecisionPanel
                   decision={decision}
+                  baseline={baseline}
+                  accounts={accounts}
                   onUpdate={onUpdate}
                   onDelete={() => onDelete(decision.id)}
                 />
@@ -111,7 +117,7 @@ export function DecisionList({
           </Card>
         );
       })}
-      <Button variant="outline" onClick={onAdd} className="self-start">
+      <Button variant="outline" onClick={() => onAdd()} className="self-start">
         + Add Decision
       </Button>
     </div>
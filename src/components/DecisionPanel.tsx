@@ -1,16 +1,26 @@
 /**
  * Decision editor: define the streams that come with a financial decision.
+ *
+ * Each stream can be goal-sought ("Solve"): find the largest amount that
+ * keeps checking above the buffer, or the smallest that reaches a target
+ * ending balance. The start-date search tries the whole decision at a
+ * range of start dates.
  */
 
 import { useState } from 'react';
-import type { CashStream, DecisionConfig } from '../engine';
+import type { Account, CashStream, DecisionConfig, GoalSeekGoal, GoalSeekResult, ScenarioConfig } from '../engine';
+import { applyDecision, formatSemimonthlyDays, solveStreamAmount } from '../engine';
+import { CalculatorInput } from './CalculatorInput';
 import { StreamEditor } from './StreamEditor';
+import { StartDateSearch } from './StartDateSearch';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 
 interface DecisionPanelProps {
   decision: DecisionConfig;
+  baseline: ScenarioConfig;
+  accounts: Account[];
   onUpdate: (decision: DecisionConfig) => void;
   onDelete: () => void;
 }
@@ -20,11 +30,23 @@ const FREQUENCY_LABELS: Record<string, string> = {
   biweekly: 'Every 2 weeks',
   semimonthly: '1st & 15th',
   monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
   'one-time': 'One-time',
 };
 
+function frequencyLabel(stream: CashStream): string {
+  if (stream.frequency === 'every-n-months') {
+    return `Every ${stream.intervalMonths ?? 1} months`;
+  }
+  if (stream.frequency === 'semimonthly') return formatSemimonthlyDays(stream);
+  return FREQUENCY_LABELS[stream.frequency];
+}
+
 export function DecisionPanel({
   decision,
+  baseline,
+  accounts,
   onUpdate,
   onDelete,
 }: DecisionPanelProps) {
@@ -32,6 +54,10 @@ export function DecisionPanel({
     decision.addStreams.length === 0 ? 'stream' : null
   );
   const [editingStreamId, setEditingStreamId] = useState<string | null>(null);
+  const [solvingStreamId, setSolvingStreamId] = useState<string | null>(null);
+  const [timingOpen, setTimingOpen] = useState(false);
+  // What the decision's streams can be a percentage of: the baseline as this decision leaves it
+  const decisionStreams = applyDecision(baseline, decision).streams;
 
   function handleNameChange(name: string) {
     onUpdate({ ...decision, name });
@@ -96,6 +122,8 @@ export function DecisionPanel({
         {addMode === 'stream' && (
           <div className="bg-muted/50 border rounded-lg p-4 mb-4">
             <StreamEditor
+              accounts={accounts}
+              streams={decisionStreams}
               hideCategory
               onSave={handleAddStream}
               onCancel={() => setAddMode(null)}
@@ -106,6 +134,8 @@ export function DecisionPanel({
         {addMode === 'upfront' && (
           <div className="bg-muted/50 border rounded-lg p-4 mb-4">
             <StreamEditor
+              accounts={accounts}
+              streams={decisionStreams}
               defaultType="expense"
               hideCategory
               lockFrequency="one-time"
@@ -121,26 +151,50 @@ export function DecisionPanel({
             <div key={stream.id} className="bg-muted/50 border rounded-lg p-4 mb-3">
               <StreamEditor
                 stream={stream}
+                accounts={accounts}
+                streams={decisionStreams}
                 hideCategory
                 onSave={handleUpdateStream}
                 onCancel={() => setEditingStreamId(null)}
               />
             </div>
           ) : (
-            <div key={stream.id} className="flex items-center justify-between py-2.5 border-b border-muted last:border-b-0 group">
-              <div className="flex flex-col gap-0.5">
-                <span className="font-medium text-sm">{stream.name}</span>
-                <span className="text-[0.8125rem] text-muted-foreground">
-                  ${stream.amount.toLocaleString()} · {FREQUENCY_LABELS[stream.frequency]}
-                  {stream.endDate && ` · ends ${stream.endDate}`}
-                </span>
-              </div>
-              <div className="flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
-                <Button variant="ghost" size="xs" onClick={() => setEditingStreamId(stream.id)}>Edit</Button>
-                <Button variant="ghost" size="xs" className="text-destructive hover:text-destructive" onClick={() => handleRemoveStream(stream.id)}>
-                  Delete
-                </Button>
+            <div key={stream.id} className="border-b border-muted last:border-b-0">
+              <div className="flex items-center justify-between py-2.5 group">
+                <div className="flex flex-col gap-0.5">
+                  <span className="font-medium text-sm">{stream.name}</span>
+                  <span className="text-[0.8125rem] text-muted-foreground">
+                    ${stream.amount.toLocaleString()} · {frequencyLabel(stream)}
+                    {stream.endDate && ` · ends ${stream.endDate}`}
+                  </span>
+                </div>
+                <div className="flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  {!stream.percentOf && (
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      onClick={() => setSolvingStreamId(solvingStreamId === stream.id ? null : stream.id)}
+                    >
+                      Solve
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="xs" onClick={() => setEditingStreamId(stream.id)}>Edit</Button>
+                  <Button variant="ghost" size="xs" className="text-destructive hover:text-destructive" onClick={() => handleRemoveStream(stream.id)}>
+                    Delete
+                  </Button>
+                </div>
               </div>
+              {solvingStreamId === stream.id && (
+                <GoalSeekForm
+                  baseline={baseline}
+                  decision={decision}
+                  stream={stream}
+                  onApply={(amount) => {
+                    handleUpdateStream({ ...stream, amount });
+                    setSolvingStreamId(null);
+                  }}
+                />
+              )}
             </div>
           )
         )}
@@ -163,6 +217,114 @@ export function DecisionPanel({
           </div>
         )}
       </div>
+
+      {decision.addStreams.length > 0 && (
+        <div className="pt-4 border-t">
+          <button
+            className="flex items-center justify-between w-full text-sm font-semibold text-foreground mb-3"
+            onClick={() => setTimingOpen(!timingOpen)}
+          >
+            <span>When should this start?</span>
+            <span className="text-xs text-muted-foreground">{timingOpen ? '▾' : '▸'}</span>
+          </button>
+          {timingOpen && (
+            <StartDateSearch
+              baseline={baseline}
+              decision={decision}
+              onApply={(shifted) => {
+                onUpdate(shifted);
+                setTimingOpen(false);
+              }}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 }
+
+const GOAL_OPTIONS: { value: GoalSeekGoal; label: string }[] = [
+  { value: 'max-within-buffer', label: 'Largest amount that stays above the buffer' },
+  { value: 'min-for-ending-balance', label: 'Smallest amount that reaches an ending balance' },
+];
+
+interface GoalSeekFormProps {
+  baseline: ScenarioConfig;
+  decision: DecisionConfig;
+  stream: CashStream;
+  onApply: (amount: number) => void;
+}
+
+/** Goal-seek one stream's amount against the decision's forecast. */
+function GoalSeekForm({ baseline, decision, stream, onApply }: GoalSeekFormProps) {
+  const [goal, setGoal] = useState<GoalSeekGoal>(stream.type === 'income' ? 'min-for-ending-balance' : 'max-within-buffer');
+  const [targetEndingBalance, setTargetEndingBalance] = useState(baseline.safetyBuffer);
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  const solvedAmount = result?.status === 'found' ? result.amount : null;
+
+  function handleSolve() {
+    setResult(solveStreamAmount(baseline, decision, stream.id, goal, targetEndingBalance));
+  }
+
+  return (
+    <div className="bg-muted/50 border rounded-lg p-3 mb-3 flex flex-col gap-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex flex-col gap-1">
+          <Label>Find</Label>
+          <select
+            className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+            value={goal}
+            onChange={(e) => {
+              setGoal(e.target.value as GoalSeekGoal);
+              setResult(null);
+            }}
+          >
+            {GOAL_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+        </div>
+        {goal === 'min-for-ending-balance' && (
+          <div className="flex flex-col gap-1 w-36">
+            <Label>Ending Checking</Label>
+            <CalculatorInput
+              value={targetEndingBalance}
+              onChange={(value) => {
+                setTargetEndingBalance(value);
+                setResult(null);
+              }}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm tabular-nums"
+            />
+          </div>
+        )}
+        <Button size="sm" onClick={handleSolve}>Solve</Button>
+      </div>
+
+      {result && (
+        <div className="flex items-center justify-between gap-3 text-sm">
+          <span>{describeResult(result, goal)}</span>
+          {solvedAmount !== null && solvedAmount !== stream.amount && (
+            <Button size="sm" variant="outline" onClick={() => onApply(solvedAmount)}>
+              Use ${solvedAmount.toLocaleString()}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function describeResult(result: GoalSeekResult, goal: GoalSeekGoal): string {
+  if (result.status === 'unbounded') {
+    return 'Any amount works — this stream never pushes checking below the buffer.';
+  }
+  if (result.status === 'unreachable' || result.amount === null || !result.metrics) {
+    return goal === 'max-within-buffer'
+      ? 'No amount works — checking dips below the buffer even without this stream.'
+      : 'No amount reaches that ending balance.';
+  }
+  const lowest = `lowest checking $${Math.round(result.metrics.minChecking).toLocaleString()}`;
+  const ending = `ending $${Math.round(result.metrics.endingChecking).toLocaleString()}`;
+  return `$${result.amount.toLocaleString()} (${lowest}, ${ending})`;
+}
@@ -4,11 +4,18 @@
  * Uses Recharts to render overlaid lines with a safety buffer line.
  * Each decision gets a distinct color from the palette. The baseline
  * is always indigo; decisions cycle through green, amber, purple, etc.
+ * Stress tests are drawn as dashed red-family lines over checking.
+ * With a Monte Carlo simulation, the baseline's P10–P90 range is shaded
+ * behind the lines.
+ *
+ * In net-worth mode the same lines show assets minus debts instead, and the
+ * checking-only pieces (buffer, savings lines, simulated range) are hidden.
  */
 
 import {
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -18,33 +25,34 @@ import {
   Legend,
 } from 'recharts';
 import { format, parseISO } from 'date-fns';
-import type { ForecastResult } from '../engine';
-import type { DecisionForecast } from '../hooks/useForecaster';
+import type { ForecastResult, MonteCarloResult } from '../engine';
+import type { DecisionForecast, StressForecast } from '../hooks/useForecaster';
 import { Card } from '@/components/ui/card';
+import { DECISION_COLORS, STRESS_COLORS } from '@/lib/chartColors';
 
-// Color palette for decision lines (checking solid, savings light/dashed)
-export const DECISION_COLORS = [
-  { main: '#16a34a', light: '#86efac' },  // green
-  { main: '#d97706', light: '#fcd34d' },  // amber
-  { main: '#9333ea', light: '#c4b5fd' },  // purple
-  { main: '#dc2626', light: '#fca5a5' },  // red
-  { main: '#0891b2', light: '#67e8f9' },  // cyan
-  { main: '#be185d', light: '#f9a8d4' },  // pink
-];
+export type ChartMode = 'checking' | 'net-worth';
 
 interface ForecastChartProps {
   baselineResult: ForecastResult | null;
   decisionForecasts: DecisionForecast[];
+  stressForecasts?: StressForecast[];
+  simulation?: MonteCarloResult | null; // Baseline P10–P90 band, when streams have amount ranges
   safetyBuffer: number;
   allDecisionIds: string[];
+  mode?: ChartMode;
 }
 
 export function ForecastChart({
   baselineResult,
   decisionForecasts,
+  stressForecasts = [],
+  simulation,
   safetyBuffer,
   allDecisionIds,
+  mode = 'checking',
 }: ForecastChartProps) {
+  const isNetWorth = mode === 'net-worth';
+
   if (!baselineResult) {
     return (
       <div className="flex items-center justify-center h-[300px] bg-muted/50 border-2 border-dashed rounded-lg text-muted-foreground">
@@ -59,12 +67,24 @@ export function ForecastChart({
       label: format(parseISO(day.date), 'MMM d'),
       baselineChecking: day.checking,
       baselineSavings: day.savings,
+      baselineNetWorth: day.netWorth,
     };
+    const band = simulation?.bands[i];
+    if (band) {
+      point.baselineRange = [band.p10, band.p90];
+    }
     for (const df of decisionForecasts) {
       const snapshot = df.result.daily[i];
       if (snapshot) {
         point[`checking_${df.decision.id}`] = snapshot.checking;
         point[`savings_${df.decision.id}`] = snapshot.savings;
+        point[`networth_${df.decision.id}`] = snapshot.netWorth;
+      }
+    }
+    for (const sf of stressForecasts) {
+      const snapshot = sf.result.daily[i];
+      if (snapshot) {
+        point[`stress_${sf.stressTest.id}`] = isNetWorth ? snapshot.netWorth : snapshot.checking;
       }
     }
     return point;
@@ -80,7 +100,7 @@ export function ForecastChart({
   return (
     <Card className="p-5">
       <ResponsiveContainer width="100%" height={400}>
-        <LineChart data={data} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+        <ComposedChart data={data} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
           <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
           <XAxis
             dataKey="label"
@@ -94,23 +114,37 @@ export function ForecastChart({
           <Tooltip content={<CustomTooltip />} />
           <Legend />
 
-          <ReferenceLine
-            y={safetyBuffer}
-            stroke="#ef4444"
-            strokeDasharray="6 4"
-            label={{
-              value: `Buffer: $${safetyBuffer.toLocaleString()}`,
-              position: 'right',
-              fill: '#ef4444',
-              fontSize: 11,
-            }}
-          />
+          {!isNetWorth && (
+            <ReferenceLine
+              y={safetyBuffer}
+              stroke="#ef4444"
+              strokeDasharray="6 4"
+              label={{
+                value: `Buffer: $${safetyBuffer.toLocaleString()}`,
+                position: 'right',
+                fill: '#ef4444',
+                fontSize: 11,
+              }}
+            />
+          )}
 
           <ReferenceLine y={0} stroke="var(--foreground)" strokeWidth={1} />
 
+          {simulation && !isNetWorth && (
+            <Area
+              type="monotone"
+              dataKey="baselineRange"
+              fill="var(--primary)"
+              fillOpacity={0.12}
+              stroke="none"
+              isAnimationActive={false}
+              name="Baseline P10–P90"
+            />
+          )}
+
           <Line
             type="monotone"
-            dataKey="baselineChecking"
+            dataKey={isNetWorth ? 'baselineNetWorth' : 'baselineChecking'}
             stroke="var(--primary)"
             strokeWidth={2}
             dot={false}
@@ -121,7 +155,7 @@ export function ForecastChart({
             <Line
               key={`checking_${df.decision.id}`}
               type="monotone"
-              dataKey={`checking_${df.decision.id}`}
+              dataKey={isNetWorth ? `networth_${df.decision.id}` : `checking_${df.decision.id}`}
               stroke={colorFor(df.decision.id).main}
               strokeWidth={2}
               dot={false}
@@ -129,17 +163,32 @@ export function ForecastChart({
             />
           ))}
 
-          <Line
-            type="monotone"
-            dataKey="baselineSavings"
-            stroke="var(--ring)"
-            strokeWidth={1}
-            strokeDasharray="4 4"
-            dot={false}
-            name="Baseline Savings"
-          />
+          {stressForecasts.map((sf, idx) => (
+            <Line
+              key={`stress_${sf.stressTest.id}`}
+              type="monotone"
+              dataKey={`stress_${sf.stressTest.id}`}
+              stroke={STRESS_COLORS[idx % STRESS_COLORS.length]}
+              strokeWidth={2}
+              strokeDasharray="8 3"
+              dot={false}
+              name={sf.stressTest.name}
+            />
+          ))}
 
-          {decisionForecasts.map((df) => (
+          {!isNetWorth && (
+            <Line
+              type="monotone"
+              dataKey="baselineSavings"
+              stroke="var(--ring)"
+              strokeWidth={1}
+              strokeDasharray="4 4"
+              dot={false}
+              name="Baseline Savings"
+            />
+          )}
+
+          {!isNetWorth && decisionForecasts.map((df) => (
             <Line
               key={`savings_${df.decision.id}`}
               type="monotone"
@@ -151,8 +200,16 @@ export function ForecastChart({
               name={`${df.decision.name} Savings`}
             />
           ))}
-        </LineChart>
+        </ComposedChart>
       </ResponsiveContainer>
+      {simulation && !isNetWorth && (
+        <p className="mt-2 text-[0.8125rem] text-muted-foreground">
+          Across {simulation.runs} simulated runs, checking dips below the buffer in{' '}
+          <span className="font-semibold text-foreground">{formatChance(simulation.probBelowBuffer)}</span>{' '}
+          and below $0 in{' '}
+          <span className="font-semibold text-foreground">{formatChance(simulation.probBelowZero)}</span>.
+        </p>
+      )}
     </Card>
   );
 }
@@ -165,12 +222,22 @@ function CustomTooltip({ active, payload, label }: any) {
       <p className="font-semibold text-foreground mb-0.5">{label}</p>
       {payload.map((entry: any) => (
         <p key={entry.dataKey} style={{ color: entry.color }} className="my-0.5">
-          {entry.name}: ${entry.value?.toLocaleString(undefined, {
-            minimumFractionDigits: 0,
-            maximumFractionDigits: 0,
-          })}
+          {entry.name}: {Array.isArray(entry.value)
+            ? `${formatDollars(entry.value[0])} – ${formatDollars(entry.value[1])}`
+            : formatDollars(entry.value)}
         </p>
       ))}
     </div>
   );
 }
+
+function formatDollars(value: number | undefined): string {
+  return `$${value?.toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+function formatChance(probability: number): string {
+  return `${Math.round(probability * 100)}% of runs`;
+}
@@ -0,0 +1,139 @@
+/**
+ * Savings goals on the forecast: when each one is reached, how far short it
+ * falls on its target date, and how each decision delays or speeds it up.
+ */
+
+import { format, parseISO } from 'date-fns';
+import type { Goal, GoalComparison, GoalProgress } from '../engine';
+import type { DecisionForecast } from '../hooks/useForecaster';
+import { DECISION_COLORS } from '@/lib/chartColors';
+import { Card } from '@/components/ui/card';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+interface GoalsPanelProps {
+  goals: Goal[];
+  baselineGoals: GoalProgress[];
+  decisionForecasts: DecisionForecast[];
+  allDecisionIds: string[];
+}
+
+export function GoalsPanel({ goals, baselineGoals, decisionForecasts, allDecisionIds }: GoalsPanelProps) {
+  if (goals.length === 0) return null;
+
+  function colorFor(decisionId: string) {
+    const idx = allDecisionIds.indexOf(decisionId);
+    return DECISION_COLORS[(idx >= 0 ? idx : 0) % DECISION_COLORS.length];
+  }
+
+  return (
+    <Card className="p-5 overflow-x-auto">
+      <h3 className="text-sm font-semibold">Savings Goals</h3>
+      <Table>
+        <TableHeader>
+          <TableRow className="hover:bg-transparent">
+            <TableHead className="w-[180px]"></TableHead>
+            <TableHead className="whitespace-nowrap">
+              <span className="inline-block w-2 h-2 rounded-full mr-1.5 align-middle" style={{ background: 'var(--primary)' }} />
+              Baseline
+            </TableHead>
+            {decisionForecasts.map((df) => (
+              <TableHead key={df.decision.id} className="whitespace-nowrap">
+                <span
+                  className="inline-block w-2 h-2 rounded-full mr-1.5 align-middle"
+                  style={{ background: colorFor(df.decision.id).main }}
+                />
+                {df.decision.name}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {goals.map((goal) => {
+            const progress = baselineGoals.find((p) => p.goalId === goal.id);
+            if (!progress) return null;
+            return (
+              <TableRow key={goal.id}>
+                <TableCell className="font-medium">
+                  {goal.name}
+                  <span className="block text-xs text-muted-foreground font-normal mt-0.5">
+                    {formatCurrency(goal.targetAmount)} by {formatDate(goal.targetDate)}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  <span className="font-semibold tabular-nums">{formatReached(progress)}</span>
+                  <span className="block text-xs text-muted-foreground mt-0.5">{describeShortfall(progress)}</span>
+                </TableCell>
+                {decisionForecasts.map((df) => {
+                  const comparison = df.goals.find((c) => c.goalId === goal.id);
+                  if (!comparison) {
+                    return <TableCell key={df.decision.id} className="text-muted-foreground">—</TableCell>;
+                  }
+                  const isGood = compareGoal(comparison);
+                  return (
+                    <TableCell key={df.decision.id}>
+                      <span className={cn(
+                        "font-semibold tabular-nums",
+                        isGood === true && "text-income",
+                        isGood === false && "text-expense"
+                      )}>
+                        {formatReached(comparison.decision)}
+                      </span>
+                      <span className={cn(
+                        "block text-xs mt-0.5 tabular-nums",
+                        isGood === null ? "text-muted-foreground" : "font-semibold",
+                        isGood === true && "text-income",
+                        isGood === false && "text-expense"
+                      )}>
+                        {describeChange(comparison)}
+                      </span>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+}
+
+function formatCurrency(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+function formatDate(iso: string): string {
+  return format(parseISO(iso), 'MMM d, yyyy');
+}
+
+function formatReached(progress: GoalProgress): string {
+  return progress.reachedDate ? formatDate(progress.reachedDate) : 'Not reached';
+}
+
+function describeShortfall(progress: GoalProgress): string {
+  if (progress.shortfall === 0) return 'On track';
+  return `${formatCurrency(progress.shortfall)} short — save ${formatCurrency(progress.monthlyContributionNeeded)}/mo more`;
+}
+
+/** Whether a decision helps (true) or hurts (false) a goal; null = no change. */
+function compareGoal(comparison: GoalComparison): boolean | null {
+  const { baseline, decision, daysDelta, shortfallDelta } = comparison;
+  if (daysDelta !== null && daysDelta !== 0) return daysDelta < 0;
+  if (baseline.reachedDate !== decision.reachedDate) return decision.reachedDate !== null;
+  if (shortfallDelta !== 0) return shortfallDelta < 0;
+  return null;
+}
+
+function describeChange(comparison: GoalComparison): string {
+  const { baseline, decision, daysDelta, shortfallDelta } = comparison;
+  if (daysDelta !== null && daysDelta !== 0) {
+    return `${Math.abs(daysDelta)} days ${daysDelta > 0 ? 'later' : 'sooner'}`;
+  }
+  if (baseline.reachedDate && !decision.reachedDate) return 'No longer reached';
+  if (!baseline.reachedDate && decision.reachedDate) return 'Now reached';
+  if (shortfallDelta !== 0) {
+    return `${formatCurrency(Math.abs(shortfallDelta))} ${shortfallDelta > 0 ? 'further short' : 'closer'}`;
+  }
+  return 'No change';
+}
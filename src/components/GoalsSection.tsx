@@ -0,0 +1,116 @@
+import { v4 as uuid } from 'uuid';
+import type { Account, Goal } from '../engine';
+import { isDebtAccount } from '../engine';
+import { CalculatorInput } from './CalculatorInput';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+interface GoalsSectionProps {
+  goals: Goal[];
+  accounts: Account[]; // Ledger accounts; debts can't hold a goal
+  defaultTargetDate: string; // ISO date for new goals
+  onChange: (goals: Goal[]) => void;
+}
+
+/**
+ * Savings goals such as an emergency fund. Each goal counts the combined
+ * balance of the accounts picked for it; the Forecast page shows when it's reached.
+ */
+export function GoalsSection({ goals, accounts, defaultTargetDate, onChange }: GoalsSectionProps) {
+  const assetAccounts = accounts.filter((a) => !isDebtAccount(a.accountType));
+
+  function handleAdd() {
+    const savings = assetAccounts.find((a) => a.accountType === 'savings') ?? assetAccounts[0];
+    onChange([
+      ...goals,
+      {
+        id: uuid(),
+        name: 'Emergency fund',
+        targetAmount: 10000,
+        targetDate: defaultTargetDate,
+        accountIds: savings ? [savings.id] : [],
+      },
+    ]);
+  }
+
+  function update(id: string, changes: Partial<Goal>) {
+    onChange(goals.map((g) => (g.id === id ? { ...g, ...changes } : g)));
+  }
+
+  function toggleAccount(goal: Goal, accountId: string) {
+    const accountIds = goal.accountIds.includes(accountId)
+      ? goal.accountIds.filter((id) => id !== accountId)
+      : [...goal.accountIds, accountId];
+    update(goal.id, { accountIds });
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/50 p-4">
+      {goals.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No goals yet. Add one to see when you'll reach it and what it takes to get there on time.
+        </p>
+      )}
+
+      {goals.map((goal) => (
+        <div key={goal.id} className="space-y-2 border-b pb-3 last:border-b-0 last:pb-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={goal.name}
+              onChange={(e) => update(goal.id, { name: e.target.value })}
+              className="h-8 w-48"
+              aria-label="Goal name"
+            />
+            <div className="relative w-32">
+              <span className="absolute left-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+              <CalculatorInput
+                value={goal.targetAmount}
+                onChange={(targetAmount) => update(goal.id, { targetAmount })}
+                min={0}
+                className="flex h-8 w-full rounded-md border border-input bg-transparent pl-5 pr-2 text-sm tabular-nums"
+              />
+            </div>
+            <span className="text-sm text-muted-foreground">by</span>
+            <Input
+              type="date"
+              value={goal.targetDate}
+              onChange={(e) => update(goal.id, { targetDate: e.target.value })}
+              className="h-8 w-40 tabular-nums"
+            />
+            <button
+              type="button"
+              className="ml-auto text-muted-foreground hover:text-foreground cursor-pointer"
+              aria-label={`Remove ${goal.name}`}
+              onClick={() => onChange(goals.filter((g) => g.id !== goal.id))}
+            >
+              ×
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5 text-xs">
+            <span className="text-muted-foreground mr-1">Counts:</span>
+            {assetAccounts.map((a) => (
+              <button
+                key={a.id}
+                type="button"
+                className={cn(
+                  "px-2 py-0.5 rounded-full border transition-colors",
+                  goal.accountIds.includes(a.id)
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "text-muted-foreground hover:bg-muted"
+                )}
+                onClick={() => toggleAccount(goal, a.id)}
+              >
+                {a.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Button size="sm" variant="outline" onClick={handleAdd}>
+        Add Goal
+      </Button>
+    </div>
+  );
+}
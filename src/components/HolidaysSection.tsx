@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { getUSFederalHolidays } from '../engine';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface HolidaysSectionProps {
+  customHolidays: string[];
+  year: number; // Which year's federal holidays to show for reference
+  onChange: (holidays: string[]) => void;
+}
+
+/**
+ * Bank holidays used when streams shift off weekends and holidays.
+ * US federal holidays are built in; users add their own on top.
+ */
+export function HolidaysSection({ customHolidays, year, onChange }: HolidaysSectionProps) {
+  const [draft, setDraft] = useState('');
+  const federal = getUSFederalHolidays(year);
+
+  function handleAdd() {
+    if (!draft || customHolidays.includes(draft)) return;
+    onChange([...customHolidays, draft].sort());
+    setDraft('');
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/50 p-4">
+      <p className="text-sm text-muted-foreground">
+        Streams set to move off weekends and holidays skip these days.
+        US federal holidays ({year}): {federal.map(formatHoliday).join(', ')}.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {customHolidays.length === 0 && (
+          <span className="text-sm text-muted-foreground">No custom holidays yet.</span>
+        )}
+        {customHolidays.map((date) => (
+          <Badge key={date} variant="outline" className="gap-1 tabular-nums">
+            {formatHoliday(date)}
+            <button
+              type="button"
+              className="ml-1 text-muted-foreground hover:text-foreground cursor-pointer"
+              aria-label={`Remove ${date}`}
+              onClick={() => onChange(customHolidays.filter((d) => d !== date))}
+            >
+              ×
+            </button>
+          </Badge>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="h-8 w-40 tabular-nums"
+        />
+        <Button size="sm" variant="outline" onClick={handleAdd} disabled={!draft}>
+          Add Holiday
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function formatHoliday(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
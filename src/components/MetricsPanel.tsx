@@ -2,19 +2,36 @@
  * Summary metrics displayed below the chart.
  *
  * Shows key fragility indicators in a table format that scales to N decisions.
+ * Stress tests get a column each after the decisions.
+ * Runway rows show how long the money lasts if the chosen streams stop
+ * (all income by default); stress tests don't get a runway of their own.
  */
 
-import type { ForecastMetrics } from '../engine';
-import type { DecisionForecast } from '../hooks/useForecaster';
-import { DECISION_COLORS } from './ForecastChart';
+import type { CashStream, ForecastMetrics, RunwayMetrics } from '../engine';
+import type { DecisionForecast, StressForecast } from '../hooks/useForecaster';
+import { DECISION_COLORS, STRESS_COLORS } from '@/lib/chartColors';
 import { Card } from '@/components/ui/card';
 import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '@/components/ui/table';
 import { cn } from '@/lib/utils';
 
 interface MetricsPanelProps {
   baselineMetrics: ForecastMetrics | null;
+  baselineRunway?: RunwayMetrics | null;
   decisionForecasts: DecisionForecast[];
+  stressForecasts?: StressForecast[];
   allDecisionIds: string[];
+  streams?: CashStream[]; // Baseline streams, for choosing what stops in the runway
+  runwayStoppedIds?: string[] | null; // null = all income
+  onRunwayStoppedIdsChange?: (ids: string[] | null) => void;
+}
+
+/** A column compared against the baseline: a decision or a stress test. */
+interface ComparisonColumn {
+  id: string;
+  name: string;
+  color: string;
+  metrics: ForecastMetrics;
+  runway?: RunwayMetrics;
 }
 
 interface MetricDef {
@@ -45,28 +62,76 @@ const METRICS: MetricDef[] = [
     getDelta: (b, d) => d.endingChecking - b.endingChecking,
     positiveIsGood: true,
   },
+  {
+    label: 'Ending Net Worth',
+    getValue: (m) => formatCurrency(m.endingNetWorth),
+    getDelta: (b, d) => d.endingNetWorth - b.endingNetWorth,
+    positiveIsGood: true,
+  },
   {
     label: 'Days Below Zero',
     getValue: (m) => `${m.daysCheckingBelowZero} days`,
     getDelta: (b, d) => d.daysCheckingBelowZero - b.daysCheckingBelowZero,
     positiveIsGood: false,
   },
+  {
+    label: 'Overdraft Fees',
+    getValue: (m) => formatCurrency(m.totalFees),
+    getDelta: (b, d) => d.totalFees - b.totalFees,
+    positiveIsGood: false,
+  },
+  {
+    label: 'Days Over Card Limit',
+    getValue: (m) => `${m.daysOverCreditLimit} days`,
+    getDelta: (b, d) => d.daysOverCreditLimit - b.daysOverCreditLimit,
+    positiveIsGood: false,
+  },
+];
+
+interface RunwayDef {
+  label: string;
+  getDays: (r: RunwayMetrics) => number | null;
+  getDate: (r: RunwayMetrics) => string | null;
+}
+
+const RUNWAY_METRICS: RunwayDef[] = [
+  { label: 'Runway to Buffer', getDays: (r) => r.daysToBuffer, getDate: (r) => r.bufferDate },
+  { label: 'Runway to $0', getDays: (r) => r.daysToZero, getDate: (r) => r.zeroDate },
 ];
 
 export function MetricsPanel({
   baselineMetrics,
+  baselineRunway,
   decisionForecasts,
+  stressForecasts = [],
   allDecisionIds,
+  streams = [],
+  runwayStoppedIds = null,
+  onRunwayStoppedIdsChange,
 }: MetricsPanelProps) {
   if (!baselineMetrics) return null;
 
-  const hasDecisions = decisionForecasts.length > 0;
-
   function colorFor(decisionId: string) {
     const idx = allDecisionIds.indexOf(decisionId);
     return DECISION_COLORS[(idx >= 0 ? idx : 0) % DECISION_COLORS.length];
   }
 
+  const columns: ComparisonColumn[] = [
+    ...decisionForecasts.map((df) => ({
+      id: df.decision.id,
+      name: df.decision.name,
+      color: colorFor(df.decision.id).main,
+      metrics: df.result.metrics,
+      runway: df.runway,
+    })),
+    ...stressForecasts.map((sf, idx) => ({
+      id: sf.stressTest.id,
+      name: sf.stressTest.name,
+      color: STRESS_COLORS[idx % STRESS_COLORS.length],
+      metrics: sf.result.metrics,
+    })),
+  ];
+
   return (
     <Card className="p-5 overflow-x-auto">
       <Table>
@@ -77,13 +142,13 @@ export function MetricsPanel({
               <span className="inline-block w-2 h-2 rounded-full mr-1.5 align-middle" style={{ background: 'var(--primary)' }} />
               Baseline
             </TableHead>
-            {decisionForecasts.map((df) => (
-              <TableHead key={df.decision.id} className="whitespace-nowrap">
+            {columns.map((column) => (
+              <TableHead key={column.id} className="whitespace-nowrap">
                 <span
                   className="inline-block w-2 h-2 rounded-full mr-1.5 align-middle"
-                  style={{ background: colorFor(df.decision.id).main }}
+                  style={{ background: column.color }}
                 />
-                {df.decision.name}
+                {column.name}
               </TableHead>
             ))}
           </TableRow>
@@ -98,13 +163,13 @@ export function MetricsPanel({
                   <span className="block text-xs text-muted-foreground mt-0.5">{metric.getSub(baselineMetrics)}</span>
                 )}
               </TableCell>
-              {decisionForecasts.map((df) => {
-                const decisionMetrics = df.result.metrics;
+              {columns.map((column) => {
+                const decisionMetrics = column.metrics;
                 const delta = metric.getDelta(baselineMetrics, decisionMetrics);
                 const isGood = delta === 0 ? null : (delta > 0) === metric.positiveIsGood;
 
                 return (
-                  <TableCell key={df.decision.id}>
+                  <TableCell key={column.id}>
                     <span className={cn(
                       "font-semibold tabular-nums",
                       isGood === true && "text-income",
@@ -126,9 +191,57 @@ export function MetricsPanel({
               })}
             </TableRow>
           ))}
+          {baselineRunway && RUNWAY_METRICS.map((metric) => {
+            const baselineDays = metric.getDays(baselineRunway);
+            return (
+              <TableRow key={metric.label}>
+                <TableCell className="font-medium whitespace-nowrap">{metric.label}</TableCell>
+                <TableCell>
+                  <span className="font-semibold tabular-nums">{formatRunway(baselineDays, baselineRunway.horizonDays)}</span>
+                  <span className="block text-xs text-muted-foreground mt-0.5">{metric.getDate(baselineRunway)}</span>
+                </TableCell>
+                {columns.map((column) => {
+                  if (!column.runway) {
+                    return <TableCell key={column.id} className="text-muted-foreground">—</TableCell>;
+                  }
+                  const days = metric.getDays(column.runway);
+                  const isGood = compareRunway(baselineDays, days);
+                  const delta = baselineDays !== null && days !== null ? days - baselineDays : 0;
+
+                  return (
+                    <TableCell key={column.id}>
+                      <span className={cn(
+                        "font-semibold tabular-nums",
+                        isGood === true && "text-income",
+                        isGood === false && "text-expense"
+                      )}>
+                        {formatRunway(days, column.runway.horizonDays)}
+                      </span>
+                      {delta !== 0 && (
+                        <span className={cn(
+                          "block text-xs font-semibold mt-0.5 tabular-nums",
+                          isGood === true && "text-income",
+                          isGood === false && "text-expense"
+                        )}>
+                          {formatDelta(delta, true)} days
+                        </span>
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            );
+          })}
         </TableBody>
       </Table>
-      {!hasDecisions && (
+      {baselineRunway && onRunwayStoppedIdsChange && (
+        <RunwayAssumptions
+          streams={streams}
+          stoppedIds={runwayStoppedIds}
+          onChange={onRunwayStoppedIdsChange}
+        />
+      )}
+      {columns.length === 0 && (
         <p className="text-center text-muted-foreground text-sm mt-3">Add a decision to compare against your baseline</p>
       )}
     </Card>
@@ -142,6 +255,68 @@ function formatCurrency(value: number): string {
   })}`;
 }
 
+/** Runway length, or how far it looked when the money outlasts the horizon. */
+function formatRunway(days: number | null, horizonDays: number): string {
+  if (days === null) return `${Math.round(horizonDays / 365)}+ years`;
+  return `${days} days`;
+}
+
+/** Whether a runway is longer (true) or shorter (false) than the baseline's; null = same. */
+function compareRunway(baselineDays: number | null, days: number | null): boolean | null {
+  if (baselineDays === days) return null;
+  if (days === null) return true;
+  if (baselineDays === null) return false;
+  return days > baselineDays;
+}
+
+interface RunwayAssumptionsProps {
+  streams: CashStream[];
+  stoppedIds: string[] | null;
+  onChange: (ids: string[] | null) => void;
+}
+
+/** Pick which streams stop for the runway rows. Defaults to all income. */
+function RunwayAssumptions({ streams, stoppedIds, onChange }: RunwayAssumptionsProps) {
+  const selectable = streams.filter((s) => !s.percentOf);
+  const stopped = new Set(stoppedIds ?? selectable.filter((s) => s.type === 'income').map((s) => s.id));
+
+  function toggle(streamId: string) {
+    const next = new Set(stopped);
+    if (next.has(streamId)) next.delete(streamId);
+    else next.add(streamId);
+    onChange([...next]);
+  }
+
+  return (
+    <div className="mt-4 pt-3 border-t text-[0.8125rem]">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-muted-foreground">
+          Runway assumes these stop today{stoppedIds === null && ' (all income)'}:
+        </span>
+        {stoppedIds !== null && (
+          <button className="text-xs text-primary hover:underline" onClick={() => onChange(null)}>
+            Reset to all income
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {selectable.map((s) => (
+          <button
+            key={s.id}
+            className={cn(
+              "px-2 py-0.5 rounded-full border text-xs transition-colors",
+              stopped.has(s.id) ? "bg-primary text-primary-foreground border-primary" : "text-muted-foreground hover:bg-muted"
+            )}
+            onClick={() => toggle(s.id)}
+          >
+            {s.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function formatDelta(value: number, isDays: boolean): string {
   const prefix = value > 0 ? '+' : '';
   if (isDays) return `${prefix}${value}`;
@@ -0,0 +1,149 @@
+/**
+ * Month-by-month (or week-by-week) checking table: opening balance, what
+ * came in and went out, closing balance and the low point in each period.
+ * The baseline and each enabled decision get their own set of columns.
+ */
+
+import { Fragment, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { MonthlySummary, RollupPeriod, ScenarioConfig, ForecastResult } from '../engine';
+import { applyDecision, summarizeForecast } from '../engine';
+import type { DecisionForecast } from '../hooks/useForecaster';
+import { DECISION_COLORS } from '@/lib/chartColors';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Table, TableHeader, TableHead, TableBody, TableRow, TableCell } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+interface RollupTableProps {
+  baseline: ScenarioConfig;
+  baselineResult: ForecastResult | null;
+  decisionForecasts: DecisionForecast[];
+  allDecisionIds: string[];
+}
+
+interface ColumnSet {
+  id: string;
+  name: string;
+  color: string;
+  summaries: MonthlySummary[];
+}
+
+const COLUMNS: { label: string; getValue: (s: MonthlySummary) => number }[] = [
+  { label: 'Open', getValue: (s) => s.openingBalance },
+  { label: 'Income', getValue: (s) => s.income },
+  { label: 'Fixed', getValue: (s) => -s.fixed },
+  { label: 'Variable', getValue: (s) => -s.variable },
+  { label: 'Transfers', getValue: (s) => s.transfers },
+  { label: 'Close', getValue: (s) => s.closingBalance },
+  { label: 'Low', getValue: (s) => s.minBalance },
+];
+
+export function RollupTable({ baseline, baselineResult, decisionForecasts, allDecisionIds }: RollupTableProps) {
+  const [period, setPeriod] = useState<RollupPeriod>('month');
+
+  // Summaries for the baseline, then each decision in order
+  const summaries = useMemo(() => {
+    if (!baselineResult) return null;
+    return [
+      summarizeForecast(baseline, baselineResult, period),
+      ...decisionForecasts.map((df) => summarizeForecast(applyDecision(baseline, df.decision), df.result, period)),
+    ];
+  }, [baseline, baselineResult, decisionForecasts, period]);
+
+  if (!summaries) return null;
+
+  function colorFor(decisionId: string) {
+    const idx = allDecisionIds.indexOf(decisionId);
+    return DECISION_COLORS[(idx >= 0 ? idx : 0) % DECISION_COLORS.length];
+  }
+
+  const columnSets: ColumnSet[] = [
+    { id: 'baseline', name: 'Baseline', color: 'var(--primary)', summaries: summaries[0] },
+    ...decisionForecasts.map((df, i) => ({
+      id: df.decision.id,
+      name: df.decision.name,
+      color: colorFor(df.decision.id).main,
+      summaries: summaries[i + 1],
+    })),
+  ];
+  const periods = columnSets[0].summaries;
+
+  const formatPeriod = (s: MonthlySummary) =>
+    period === 'month' ? format(parseISO(s.periodStart), 'MMM yyyy') : `Week of ${format(parseISO(s.periodStart), 'MMM d')}`;
+
+  return (
+    <Card className="p-5 gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">{period === 'month' ? 'Month by Month' : 'Week by Week'}</h3>
+        <div className="flex gap-1">
+          <Button size="xs" variant={period === 'month' ? 'default' : 'outline'} onClick={() => setPeriod('month')}>
+            Monthly
+          </Button>
+          <Button size="xs" variant={period === 'week' ? 'default' : 'outline'} onClick={() => setPeriod('week')}>
+            Weekly
+          </Button>
+        </div>
+      </div>
+      <div className="max-h-[28rem] overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="hover:bg-transparent">
+              <TableHead></TableHead>
+              {columnSets.map((set) => (
+                <TableHead key={set.id} colSpan={COLUMNS.length} className="whitespace-nowrap border-l">
+                  <span className="inline-block w-2 h-2 rounded-full mr-1.5 align-middle" style={{ background: set.color }} />
+                  {set.name}
+                </TableHead>
+              ))}
+            </TableRow>
+            <TableRow className="hover:bg-transparent">
+              <TableHead>Period</TableHead>
+              {columnSets.map((set) => (
+                <Fragment key={set.id}>
+                  {COLUMNS.map((col, i) => (
+                    <TableHead key={col.label} className={cn("text-right", i === 0 && "border-l")}>{col.label}</TableHead>
+                  ))}
+                </Fragment>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {periods.map((p, row) => (
+              <TableRow key={p.periodStart}>
+                <TableCell className="whitespace-nowrap font-medium">{formatPeriod(p)}</TableCell>
+                {columnSets.map((set) => {
+                  const summary = set.summaries[row];
+                  return (
+                    <Fragment key={set.id}>
+                      {COLUMNS.map((col, i) => {
+                        const value = summary ? col.getValue(summary) : null;
+                        return (
+                          <TableCell
+                            key={col.label}
+                            className={cn(
+                              "text-right tabular-nums",
+                              i === 0 && "border-l",
+                              col.label === 'Low' && summary && summary.minBalance < baseline.safetyBuffer && "text-expense font-semibold"
+                            )}
+                          >
+                            {value === null ? '—' : formatCurrency(value)}
+                          </TableCell>
+                        );
+                      })}
+                    </Fragment>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+}
+
+function formatCurrency(value: number): string {
+  const rounded = Math.round(value);
+  return `${rounded < 0 ? '-' : ''}$${Math.abs(rounded).toLocaleString()}`;
+}
@@ -0,0 +1,158 @@
+/**
+ * Forecast spending by category: a stacked bar per month for the baseline,
+ * tag totals, and the categories each enabled decision moves.
+ */
+
+import { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import type { ForecastResult, ScenarioConfig } from '../engine';
+import { applyDecision, compareSpending, summarizeSpending, UNCATEGORIZED } from '../engine';
+import type { DecisionForecast } from '../hooks/useForecaster';
+import { CATEGORY_COLORS, DECISION_COLORS } from '@/lib/chartColors';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+interface SpendingBreakdownProps {
+  baseline: ScenarioConfig;
+  baselineResult: ForecastResult | null;
+  decisionForecasts: DecisionForecast[];
+  allDecisionIds: string[];
+}
+
+/** One bar. Category amounts are kept apart from `label` so no category name can clash with it. */
+interface MonthBar {
+  label: string;
+  values: Record<string, number>;
+}
+
+// Changes listed per decision; the rest collapse into "and N more"
+const MAX_CHANGES = 5;
+
+export function SpendingBreakdown({ baseline, baselineResult, decisionForecasts, allDecisionIds }: SpendingBreakdownProps) {
+  const breakdown = useMemo(
+    () => (baselineResult ? summarizeSpending(baseline, baselineResult) : null),
+    [baseline, baselineResult]
+  );
+  const decisionChanges = useMemo(() => {
+    if (!breakdown) return [];
+    return decisionForecasts.map((df) => ({
+      decision: df.decision,
+      changes: compareSpending(breakdown, summarizeSpending(applyDecision(baseline, df.decision), df.result)),
+    }));
+  }, [baseline, breakdown, decisionForecasts]);
+
+  if (!breakdown || breakdown.total === 0) return null;
+
+  // Biggest categories at the bottom of each stack, uncategorized on top
+  const categories = Object.keys(breakdown.byCategory).sort((a, b) => {
+    if (a === UNCATEGORIZED) return 1;
+    if (b === UNCATEGORIZED) return -1;
+    return breakdown.byCategory[b] - breakdown.byCategory[a];
+  });
+  const data: MonthBar[] = breakdown.months.map((m) => ({
+    label: format(parseISO(m.month), 'MMM yy'),
+    values: m.byCategory,
+  }));
+  const tags = Object.entries(breakdown.byTag).sort((a, b) => b[1] - a[1]);
+
+  function colorFor(decisionId: string) {
+    const idx = allDecisionIds.indexOf(decisionId);
+    return DECISION_COLORS[(idx >= 0 ? idx : 0) % DECISION_COLORS.length];
+  }
+
+  return (
+    <Card className="p-5 gap-3">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold">Spending by Category</h3>
+        <span className="text-[0.8125rem] text-muted-foreground tabular-nums">
+          {formatCurrency(breakdown.total)} over the forecast
+        </span>
+      </div>
+
+      <ResponsiveContainer width="100%" height={260}>
+        <BarChart data={data} margin={{ top: 5, right: 10, left: 10, bottom: 0 }}>
+          <XAxis dataKey="label" tick={{ fontSize: 12, fill: 'var(--muted-foreground)' }} />
+          <YAxis
+            tick={{ fontSize: 12, fill: 'var(--muted-foreground)' }}
+            tickFormatter={(value: number) => `$${(value / 1000).toFixed(1)}k`}
+          />
+          <Tooltip content={<CategoryTooltip />} />
+          <Legend />
+          {categories.map((category, i) => (
+            <Bar
+              key={category}
+              name={category}
+              dataKey={(bar: MonthBar) => bar.values[category] ?? 0}
+              stackId="spending"
+              fill={CATEGORY_COLORS[i % CATEGORY_COLORS.length]}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-[0.8125rem]">
+          <span className="text-muted-foreground mr-1">By tag:</span>
+          {tags.map(([tag, amount]) => (
+            <Badge key={tag} variant="outline" className="tabular-nums">
+              {tag}: {formatCurrency(amount)}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {decisionChanges.length > 0 && (
+        <div className="flex flex-col gap-2 pt-3 border-t text-[0.8125rem]">
+          {decisionChanges.map(({ decision, changes }) => (
+            <div key={decision.id} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+              <span className="font-medium">
+                <span
+                  className="inline-block w-2 h-2 rounded-full mr-1.5 align-middle"
+                  style={{ background: colorFor(decision.id).main }}
+                />
+                {decision.name}
+              </span>
+              {changes.length === 0 && <span className="text-muted-foreground">No change to spending</span>}
+              {changes.slice(0, MAX_CHANGES).map((c) => (
+                <span key={c.category} className={cn("tabular-nums", c.delta > 0 ? "text-expense" : "text-income")}>
+                  {c.category} {c.delta > 0 ? '+' : '-'}{formatCurrency(Math.abs(c.delta))}
+                </span>
+              ))}
+              {changes.length > MAX_CHANGES && (
+                <span className="text-muted-foreground">and {changes.length - MAX_CHANGES} more</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+interface CategoryTooltipProps {
+  active?: boolean;
+  payload?: { name: string; value: number; color: string }[];
+  label?: string;
+}
+
+function CategoryTooltip({ active, payload, label }: CategoryTooltipProps) {
+  if (!active || !payload || payload.length === 0) return null;
+  const total = payload.reduce((sum, entry) => sum + entry.value, 0);
+
+  return (
+    <div className="bg-popover border rounded-md px-3 py-2 shadow-md text-[0.8125rem]">
+      <p className="font-semibold text-foreground mb-0.5">{label}: {formatCurrency(total)}</p>
+      {[...payload].reverse().filter((entry) => entry.value > 0).map((entry) => (
+        <p key={entry.name} style={{ color: entry.color }} className="my-0.5">
+          {entry.name}: {formatCurrency(entry.value)}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function formatCurrency(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
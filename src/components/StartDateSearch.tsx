@@ -0,0 +1,132 @@
+/**
+ * "When should we do this?" — try a decision at each start date in a window
+ * and chart the lowest checking balance each one leads to.
+ */
+
+import { useState } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import type { DecisionConfig, ScenarioConfig, StartDateCandidate, StartDateStep } from '../engine';
+import { searchStartDates, shiftDecisionStart, getDecisionStart } from '../engine';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface StartDateSearchProps {
+  baseline: ScenarioConfig;
+  decision: DecisionConfig;
+  onApply: (decision: DecisionConfig) => void;
+}
+
+interface CandidatePoint {
+  startDate: string;
+  label: string;
+  minChecking: number;
+  bufferDays: number;
+  rank: number;
+}
+
+export function StartDateSearch({ baseline, decision, onApply }: StartDateSearchProps) {
+  const currentStart = getDecisionStart(decision) ?? baseline.startDate;
+  const [from, setFrom] = useState(currentStart);
+  const [to, setTo] = useState(baseline.endDate);
+  const [step, setStep] = useState<StartDateStep>('month');
+  const [candidates, setCandidates] = useState<StartDateCandidate[] | null>(null);
+
+  const best = candidates?.find((c) => c.rank === 1);
+  const data: CandidatePoint[] = (candidates ?? []).map((c) => ({
+    startDate: c.startDate,
+    label: format(parseISO(c.startDate), 'MMM d'),
+    minChecking: c.metrics.minChecking,
+    bufferDays: c.metrics.daysCheckingBelowBuffer,
+    rank: c.rank,
+  }));
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex flex-col gap-1">
+          <Label>Earliest Start</Label>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label>Latest Start</Label>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label>Try Every</Label>
+          <select
+            className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+            value={step}
+            onChange={(e) => setStep(e.target.value as StartDateStep)}
+          >
+            <option value="month">Month</option>
+            <option value="week">Week</option>
+          </select>
+        </div>
+        <Button
+          size="sm"
+          disabled={!from || !to || from > to}
+          onClick={() => setCandidates(searchStartDates(baseline, decision, from, to, step))}
+        >
+          Find Best Start
+        </Button>
+      </div>
+
+      {candidates && candidates.length > 0 && (
+        <>
+          <ResponsiveContainer width="100%" height={180}>
+            <BarChart data={data} margin={{ top: 5, right: 10, left: 10, bottom: 0 }}>
+              <XAxis dataKey="label" tick={{ fontSize: 11, fill: 'var(--muted-foreground)' }} />
+              <YAxis
+                tick={{ fontSize: 11, fill: 'var(--muted-foreground)' }}
+                tickFormatter={(value: number) => `$${(value / 1000).toFixed(0)}k`}
+              />
+              <Tooltip content={<CandidateTooltip />} />
+              <ReferenceLine y={baseline.safetyBuffer} stroke="#ef4444" strokeDasharray="6 4" />
+              <Bar dataKey="minChecking" name="Lowest checking">
+                {data.map((d) => (
+                  <Cell key={d.startDate} fill={d.rank === 1 ? 'var(--primary)' : 'var(--ring)'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+          {best && (
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span>
+                Best: start <strong>{format(parseISO(best.startDate), 'MMM d, yyyy')}</strong>
+                {' '}— lowest checking ${Math.round(best.metrics.minChecking).toLocaleString()},
+                {' '}{best.metrics.daysCheckingBelowBuffer} days below buffer
+              </span>
+              {best.startDate !== currentStart && (
+                <Button size="sm" variant="outline" onClick={() => onApply(shiftDecisionStart(decision, best.startDate))}>
+                  Use This Date
+                </Button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface CandidateTooltipProps {
+  active?: boolean;
+  payload?: { payload: CandidatePoint }[];
+  label?: string;
+}
+
+function CandidateTooltip({ active, payload, label }: CandidateTooltipProps) {
+  if (!active || !payload || payload.length === 0) return null;
+  const point = payload[0].payload;
+
+  return (
+    <div className="bg-popover border rounded-md px-3 py-2 shadow-md text-[0.8125rem]">
+      <p className="font-semibold text-foreground mb-0.5">Start {label}</p>
+      <p className="my-0.5">Lowest checking: ${Math.round(point.minChecking).toLocaleString()}</p>
+      <p className="my-0.5">Days below buffer: {point.bufferDays}</p>
+      <p className="my-0.5 text-muted-foreground">Rank #{point.rank}</p>
+    </div>
+  );
+}
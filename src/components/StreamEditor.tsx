@@ -7,8 +7,8 @@
 
 import { useState } from 'react';
 import { v4 as uuid } from 'uuid';
-import type { CashStream, Frequency, StreamType, AccountType, ExpenseCategory } from '../engine';
-import { calculateMonthlyPayment } from '../engine';
+import type { AmountChange, AmountRange, Paycheck, PaycheckLine, CashStream, Frequency, StreamType, ExpenseCategory, Account, MonthDayRule, BusinessDayShift, EscalationMode } from '../engine';
+import { calculateMonthlyPayment, resolveAccount, isDebtAccount, getSemimonthlyDays, LAST_DAY_OF_MONTH, computePaycheck } from '../engine';
 import { CalculatorInput } from './CalculatorInput';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -17,6 +17,8 @@ import { FormField } from '@/components/ui/form-field';
 
 interface StreamEditorProps {
   stream?: CashStream; // If provided, we're editing. If not, we're adding.
+  accounts?: Account[]; // Accounts the stream can draw from or pay into
+  streams?: CashStream[]; // Streams a percentage stream can be a share of
   defaultType?: StreamType; // Pre-set when opened from a section's "Add" button
   defaultCategory?: ExpenseCategory; // Pre-set for "Add Fixed Expense" vs "Add Variable Expense"
   lockFrequency?: Frequency; // If set, frequency is fixed and the dropdown is disabled
@@ -29,16 +31,89 @@ const FREQUENCY_OPTIONS: { value: Frequency; label: string }[] = [
   { value: 'biweekly', label: 'Every 2 weeks' },
   { value: 'monthly', label: 'Monthly' },
   { value: 'weekly', label: 'Weekly' },
-  { value: 'semimonthly', label: '1st & 15th' },
+  { value: 'semimonthly', label: 'Twice a month' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'every-n-months', label: 'Every N months' },
   { value: 'one-time', label: 'One-time' },
 ];
 
+// Frequencies that repeat every few months, counted from the reference date
+const MONTH_INTERVAL_FREQUENCIES: Frequency[] = ['quarterly', 'yearly', 'every-n-months'];
+
+const MONTH_DAY_RULE_OPTIONS: { value: MonthDayRule; label: string }[] = [
+  { value: 'day-of-month', label: 'Day of month' },
+  { value: 'last-day', label: 'Last day of month' },
+  { value: 'nth-weekday', label: 'Weekday of month' },
+  { value: 'last-business-day', label: 'Last business day' },
+];
+
+const WEEKDAY_ORDINAL_OPTIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+const WEEKDAY_OPTIONS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Semimonthly pay day choices: the 1st–31st, or the last day of the month
+const SEMIMONTHLY_DAY_OPTIONS = [
+  ...Array.from({ length: 31 }, (_, i) => ({ value: i + 1, label: String(i + 1) })),
+  { value: LAST_DAY_OF_MONTH, label: 'Last day' },
+];
+
+const BUSINESS_DAY_SHIFT_OPTIONS: { value: BusinessDayShift; label: string }[] = [
+  { value: 'none', label: 'Keep the date' },
+  { value: 'previous', label: 'Previous business day' },
+  { value: 'next', label: 'Next business day' },
+];
+
+const ESCALATION_MODE_OPTIONS: { value: EscalationMode; label: string }[] = [
+  { value: 'yearly-step', label: 'Once a year' },
+  { value: 'monthly-compound', label: 'Gradually (monthly)' },
+];
+
+type VariabilityKind = 'exact' | 'percent' | 'range';
+
+const VARIABILITY_OPTIONS: { value: VariabilityKind; label: string }[] = [
+  { value: 'exact', label: 'Exact amount' },
+  { value: 'percent', label: 'Give or take a percent' },
+  { value: 'range', label: 'Between a low and high' },
+];
+
+const MONTH_OPTIONS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const PAYCHECK_SECTIONS: { key: keyof Paycheck; label: string; hint: string }[] = [
+  { key: 'preTax', label: 'Pre-tax Deductions', hint: '401k, HSA, health premiums. % of gross.' },
+  { key: 'withholdings', label: 'Tax Withholding', hint: 'Federal, state, FICA. % of taxable pay.' },
+  { key: 'postTax', label: 'Post-tax Deductions', hint: 'Roth 401k, garnishments. % of gross.' },
+];
+
 const TYPE_OPTIONS: { value: StreamType; label: string }[] = [
   { value: 'income', label: 'Income' },
   { value: 'expense', label: 'Expense' },
   { value: 'transfer', label: 'Transfer' },
 ];
 
+/** Account picker options. Falls back to the legacy checking/savings pair
+ *  when the scenario has no accounts set up. */
+function accountOptionsFor(accounts: Account[]): { value: string; label: string }[] {
+  if (accounts.length === 0) {
+    return [
+      { value: 'checking', label: 'Checking' },
+      { value: 'savings', label: 'Savings' },
+    ];
+  }
+  return accounts.map((a) => ({ value: a.id, label: a.name }));
+}
+
+/** Normalize a legacy 'checking'/'savings' reference to the matching account id. */
+function initialAccountRef(accounts: Account[], ref: string | undefined, fallback: string): string {
+  return resolveAccount(accounts, ref ?? fallback)?.id ?? ref ?? fallback;
+}
+
 /** Add months to a date string, clamping to end-of-month to avoid overflow
  *  (e.g. Jan 31 + 1 month → Feb 28, not March 3). */
 function addMonths(dateStr: string, months: number): string {
@@ -55,21 +130,55 @@ function addMonths(dateStr: string, months: number): string {
 const selectClass = "h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
 const calcInputClass = "flex h-9 w-full min-w-0 rounded-md border border-input bg-transparent px-3 py-1 text-sm tabular-nums shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
 
-export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequency, hideCategory, onSave, onCancel }: StreamEditorProps) {
+export function StreamEditor({ stream, accounts = [], streams = [], defaultType, defaultCategory, lockFrequency, hideCategory, onSave, onCancel }: StreamEditorProps) {
   const initialType = stream?.type ?? defaultType ?? 'expense';
   const [name, setName] = useState(stream?.name ?? '');
   const [amount, setAmount] = useState(stream?.amount ?? 0);
   const [type, setType] = useState<StreamType>(initialType);
   const [frequency, setFrequency] = useState<Frequency>(lockFrequency ?? stream?.frequency ?? 'monthly');
-  const [account, setAccount] = useState<AccountType>(stream?.account ?? 'checking');
-  const [targetAccount, setTargetAccount] = useState<AccountType>(stream?.targetAccount ?? 'savings');
+  const [account, setAccount] = useState(initialAccountRef(accounts, stream?.account, 'checking'));
+  const [targetAccount, setTargetAccount] = useState(initialAccountRef(accounts, stream?.targetAccount, 'savings'));
+  const [payUpToBalance, setPayUpToBalance] = useState(stream?.payUpToBalance ?? false);
   const [startDate, setStartDate] = useState(stream?.startDate ?? '');
   const [endDate, setEndDate] = useState(stream?.endDate ?? '');
   const [dayOfMonth, setDayOfMonth] = useState(stream?.dayOfMonth ?? 1);
   const [anchorDate, setAnchorDate] = useState(stream?.anchorDate ?? '');
+  const [intervalMonths, setIntervalMonths] = useState(stream?.intervalMonths ?? 6);
+  const [semimonthlyDays, setSemimonthlyDays] = useState<[number, number]>(
+    stream ? getSemimonthlyDays(stream) : [1, 15]
+  );
+  const [monthDayRule, setMonthDayRule] = useState<MonthDayRule>(stream?.monthDayRule ?? 'day-of-month');
+  const [weekdayOrdinal, setWeekdayOrdinal] = useState(stream?.weekdayOrdinal ?? 1);
+  const [weekday, setWeekday] = useState(stream?.weekday ?? 5);
+  const [amountChanges, setAmountChanges] = useState<AmountChange[]>(stream?.amountChanges ?? []);
+  const [escalationRate, setEscalationRate] = useState(stream?.escalationRate ?? 0);
+  const [escalationMode, setEscalationMode] = useState<EscalationMode>(stream?.escalationMode ?? 'yearly-step');
+  const [escalationMonth, setEscalationMonth] = useState(stream?.escalationMonth ?? 1);
+  const [businessDayShift, setBusinessDayShift] = useState<BusinessDayShift>(stream?.businessDayShift ?? 'none');
   const [category, setCategory] = useState<ExpenseCategory | undefined>(
     stream?.category ?? defaultCategory ?? (initialType === 'expense' ? 'fixed' : undefined)
   );
+  const [budgetCategory, setBudgetCategory] = useState(stream?.budgetCategory ?? '');
+  const [tagsText, setTagsText] = useState((stream?.tags ?? []).join(', '));
+  const categorySuggestions = [...new Set(streams.map((s) => s.budgetCategory).filter((c): c is string => !!c))].sort();
+
+  // Monte Carlo range state
+  const [variability, setVariability] = useState<VariabilityKind>(initialVariability(stream?.amountRange));
+  const [rangePercent, setRangePercent] = useState(stream?.amountRange?.percent ?? 15);
+  const [rangeMin, setRangeMin] = useState(stream?.amountRange?.min ?? 0);
+  const [rangeLikely, setRangeLikely] = useState(stream?.amountRange?.likely ?? stream?.amount ?? 0);
+  const [rangeMax, setRangeMax] = useState(stream?.amountRange?.max ?? 0);
+
+  // Percentage-of-another-stream state
+  const sourceOptions = streams.filter((s) => s.id !== stream?.id && s.frequency !== 'one-time');
+  const [isPercent, setIsPercent] = useState(!!stream?.percentOf);
+  const [percentOf, setPercentOf] = useState(stream?.percentOf ?? sourceOptions[0]?.id ?? '');
+  const [percentage, setPercentage] = useState(stream?.percentage ?? 10);
+  const percentSource = isPercent ? sourceOptions.find((s) => s.id === percentOf) : undefined;
+
+  // Gross-to-net paycheck state
+  const [hasPaycheck, setHasPaycheck] = useState(!!stream?.paycheck);
+  const [paycheck, setPaycheck] = useState<Paycheck>(stream?.paycheck ?? { preTax: [], withholdings: [], postTax: [] });
 
   // Financing state
   const [isFinanced, setIsFinanced] = useState(false);
@@ -82,12 +191,19 @@ export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequen
     ? calculateMonthlyPayment(loanPrincipal, loanAnnualRate, loanTermMonths)
     : 0;
 
-  const needsDayOfMonth = frequency === 'monthly';
-  const needsAnchorDate = frequency === 'biweekly' || frequency === 'weekly';
+  const accountOptions = accountOptionsFor(accounts);
+  const isMonthInterval = MONTH_INTERVAL_FREQUENCIES.includes(frequency);
+  const needsDayOfMonth = !isPercent && (frequency === 'monthly' || isMonthInterval);
+  const needsAnchorDate = !isPercent && (frequency === 'biweekly' || frequency === 'weekly' || isMonthInterval);
   const isTransfer = type === 'transfer';
   const isExpense = type === 'expense';
-  const showFinancing = isExpense; // financing checkbox visible for any expense
+  const targetAccountType = resolveAccount(accounts, targetAccount)?.accountType;
+  const paysDebt = isTransfer && !!targetAccountType && isDebtAccount(targetAccountType);
+  const showFinancing = isExpense && !isPercent; // financing checkbox visible for any expense
   const showFinancingDetails = isFinanced && isExpense;
+  const showPaycheck = type === 'income' && !isPercent;
+  const usesPaycheck = showPaycheck && hasPaycheck;
+  const tags = parseTags(tagsText);
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -103,6 +219,28 @@ export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequen
       ? calculatedPayment
       : amount;
 
+    if (percentSource) {
+      // Follows its source's schedule; the amount is a snapshot for display
+      onSave({
+        id: stream?.id ?? uuid(),
+        name,
+        amount: Math.round(percentSource.amount * percentage) / 100,
+        type,
+        frequency: percentSource.frequency,
+        account,
+        startDate,
+        ...(endDate && { endDate }),
+        percentOf,
+        percentage,
+        ...(isTransfer && { targetAccount }),
+        ...(paysDebt && payUpToBalance && { payUpToBalance }),
+        ...(isExpense && category && { category }),
+        ...(isExpense && budgetCategory.trim() && { budgetCategory: budgetCategory.trim() }),
+        ...(tags.length > 0 && { tags }),
+      });
+      return;
+    }
+
     const cashStream: CashStream = {
       id: stream?.id ?? uuid(),
       name,
@@ -112,11 +250,30 @@ export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequen
       account,
       startDate,
       ...(computedEndDate && { endDate: computedEndDate }),
-      ...(needsDayOfMonth && { dayOfMonth }),
+      ...(needsDayOfMonth && monthDayRule === 'day-of-month' && { dayOfMonth }),
+      ...(needsDayOfMonth && monthDayRule !== 'day-of-month' && { monthDayRule }),
+      ...(needsDayOfMonth && monthDayRule === 'nth-weekday' && { weekdayOrdinal, weekday }),
       ...(needsAnchorDate && anchorDate && { anchorDate }),
+      ...(frequency === 'every-n-months' && { intervalMonths }),
+      ...(frequency === 'semimonthly' && { semimonthlyDays }),
+      ...(businessDayShift !== 'none' && { businessDayShift }),
+      ...(escalationRate !== 0 && frequency !== 'one-time' && { escalationRate, escalationMode }),
+      ...(escalationRate !== 0 && frequency !== 'one-time' && escalationMode === 'yearly-step' && { escalationMonth }),
       ...(isTransfer && { targetAccount }),
+      ...(paysDebt && payUpToBalance && { payUpToBalance }),
       ...(isExpense && category && { category }),
+      ...(isExpense && budgetCategory.trim() && { budgetCategory: budgetCategory.trim() }),
+      ...(tags.length > 0 && { tags }),
+      ...(usesPaycheck && { paycheck: withoutBlankLines(paycheck) }),
+      ...(variability === 'percent' && rangePercent > 0 && { amountRange: { percent: rangePercent } }),
+      ...(variability === 'range' && { amountRange: { min: rangeMin, likely: rangeLikely, max: rangeMax } }),
     };
+    const datedChanges = amountChanges
+      .filter((c) => c.date)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (frequency !== 'one-time' && datedChanges.length > 0) {
+      cashStream.amountChanges = datedChanges;
+    }
     onSave(cashStream);
   }
 
@@ -165,6 +322,32 @@ export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequen
           </FormField>
         )}
 
+        {isExpense && (
+          <FormField label="Spending Category" hint="Your own, e.g. Housing, Kids, Auto">
+            <Input
+              type="text"
+              list="budget-category-suggestions"
+              value={budgetCategory}
+              onChange={(e) => setBudgetCategory(e.target.value)}
+              placeholder="Uncategorized"
+            />
+            <datalist id="budget-category-suggestions">
+              {categorySuggestions.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </FormField>
+        )}
+
+        <FormField label="Tags" hint="Separate with commas">
+          <Input
+            type="text"
+            value={tagsText}
+            onChange={(e) => setTagsText(e.target.value)}
+            placeholder="e.g., Kids, Summer"
+          />
+        </FormField>
+
         {showFinancing && (
           <div className="flex items-center gap-2 col-span-full pt-1">
             <Checkbox
@@ -186,23 +369,77 @@ export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequen
           </div>
         )}
 
-        <FormField label="Frequency">
-          <select
-            className={selectClass}
-            value={frequency}
-            disabled={!!lockFrequency || isFinanced}
-            onChange={(e) => {
-              const newFreq = e.target.value as Frequency;
-              setFrequency(newFreq);
-              if (newFreq !== 'monthly') setDayOfMonth(1);
-              if (newFreq !== 'biweekly' && newFreq !== 'weekly') setAnchorDate('');
-            }}
-          >
-            {FREQUENCY_OPTIONS.map((opt) => (
-              <option key={opt.value} value={opt.value}>{opt.label}</option>
-            ))}
-          </select>
-        </FormField>
+        {showPaycheck && (
+          <div className="flex items-center gap-2 col-span-full pt-1">
+            <Checkbox
+              id="paycheck"
+              checked={hasPaycheck}
+              onCheckedChange={(checked) => setHasPaycheck(checked === true)}
+            />
+            <label htmlFor="paycheck" className="text-sm cursor-pointer">
+              Enter gross pay and deductions
+            </label>
+          </div>
+        )}
+
+        {sourceOptions.length > 0 && !isFinanced && (
+          <div className="flex items-center gap-2 col-span-full pt-1">
+            <Checkbox
+              id="percent-of"
+              checked={isPercent}
+              onCheckedChange={(checked) => setIsPercent(checked === true)}
+            />
+            <label htmlFor="percent-of" className="text-sm cursor-pointer">
+              Amount is a percentage of another stream
+            </label>
+          </div>
+        )}
+
+        {isPercent && (
+          <>
+            <FormField label="Share Of" hint="Fires whenever this stream does">
+              <select className={selectClass} value={percentOf} onChange={(e) => setPercentOf(e.target.value)}>
+                {sourceOptions.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </FormField>
+            <FormField label="Percentage (%)" hint={percentSource?.paycheck ? 'Of gross pay, before deductions' : undefined}>
+              <Input
+                type="number"
+                value={percentage}
+                onChange={(e) => setPercentage(Number(e.target.value))}
+                min={0}
+                step={0.1}
+              />
+            </FormField>
+          </>
+        )}
+
+        {!isPercent && (
+          <FormField label="Frequency">
+            <select
+              className={selectClass}
+              value={frequency}
+              disabled={!!lockFrequency || isFinanced}
+              onChange={(e) => {
+                const newFreq = e.target.value as Frequency;
+                setFrequency(newFreq);
+                const keepsMonthDay = newFreq === 'monthly' || MONTH_INTERVAL_FREQUENCIES.includes(newFreq);
+                const keepsAnchor = newFreq === 'biweekly' || newFreq === 'weekly' || MONTH_INTERVAL_FREQUENCIES.includes(newFreq);
+                if (!keepsMonthDay) {
+                  setDayOfMonth(1);
+                  setMonthDayRule('day-of-month');
+                }
+                if (!keepsAnchor) setAnchorDate('');
+              }}
+            >
+              {FREQUENCY_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </FormField>
+        )}
 
         {showFinancingDetails && (
           <div className="col-span-full rounded-lg border bg-muted/30 p-4 space-y-3">
@@ -286,49 +523,187 @@ export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequen
           </div>
         )}
 
-        <FormField label="Amount">
-          <div className="relative">
-            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
-            <CalculatorInput
-              value={amount}
-              onChange={setAmount}
-              min={0}
-              required
-              className={`${calcInputClass} pl-7`}
-            />
+        {!isPercent && (
+          <FormField label={usesPaycheck ? 'Gross Pay' : 'Amount'}>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+              <CalculatorInput
+                value={amount}
+                onChange={setAmount}
+                min={0}
+                required
+                className={`${calcInputClass} pl-7`}
+              />
+            </div>
+          </FormField>
+        )}
+
+        {usesPaycheck && (
+          <PaycheckEditor paycheck={paycheck} gross={amount} onChange={setPaycheck} />
+        )}
+
+        {frequency !== 'one-time' && !showFinancingDetails && !isPercent && (
+          <div className="col-span-full space-y-2">
+            <span className="text-sm font-medium">Amount Changes</span>
+            {amountChanges.map((change, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">From</span>
+                <Input
+                  type="date"
+                  value={change.date}
+                  onChange={(e) => setAmountChanges(amountChanges.map((c, j) => (j === i ? { ...c, date: e.target.value } : c)))}
+                  className="w-40"
+                />
+                <span className="text-sm text-muted-foreground">pay</span>
+                <div className="relative w-36">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+                  <CalculatorInput
+                    value={change.amount}
+                    onChange={(val) => setAmountChanges(amountChanges.map((c, j) => (j === i ? { ...c, amount: val } : c)))}
+                    min={0}
+                    className={`${calcInputClass} pl-7`}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="xs"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => setAmountChanges(amountChanges.filter((_, j) => j !== i))}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="xs"
+              onClick={() => setAmountChanges([...amountChanges, { date: '', amount }])}
+            >
+              + Add amount change
+            </Button>
           </div>
-        </FormField>
+        )}
 
         <FormField label="Account">
-          <select className={selectClass} value={account} onChange={(e) => setAccount(e.target.value as AccountType)}>
-            <option value="checking">Checking</option>
-            <option value="savings">Savings</option>
+          <select className={selectClass} value={account} onChange={(e) => setAccount(e.target.value)}>
+            {accountOptions.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
           </select>
         </FormField>
 
         {isTransfer && (
           <FormField label="Transfer To">
-            <select className={selectClass} value={targetAccount} onChange={(e) => setTargetAccount(e.target.value as AccountType)}>
-              <option value="savings">Savings</option>
-              <option value="checking">Checking</option>
+            <select className={selectClass} value={targetAccount} onChange={(e) => setTargetAccount(e.target.value)}>
+              {accountOptions.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
             </select>
           </FormField>
         )}
 
+        {paysDebt && (
+          <div className="flex items-center gap-2 col-span-full pt-1">
+            <Checkbox
+              id="pay-up-to-balance"
+              checked={payUpToBalance}
+              onCheckedChange={(checked) => setPayUpToBalance(checked === true)}
+            />
+            <label htmlFor="pay-up-to-balance" className="text-sm cursor-pointer">
+              Pay no more than the balance owed
+            </label>
+          </div>
+        )}
+
         {needsDayOfMonth && (
+          <FormField label="Pays On">
+            <select className={selectClass} value={monthDayRule} onChange={(e) => setMonthDayRule(e.target.value as MonthDayRule)}>
+              {MONTH_DAY_RULE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </FormField>
+        )}
+
+        {needsDayOfMonth && monthDayRule === 'nth-weekday' && (
+          <>
+            <FormField label="Which">
+              <select className={selectClass} value={weekdayOrdinal} onChange={(e) => setWeekdayOrdinal(Number(e.target.value))}>
+                {WEEKDAY_ORDINAL_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </FormField>
+            <FormField label="Weekday">
+              <select className={selectClass} value={weekday} onChange={(e) => setWeekday(Number(e.target.value))}>
+                {WEEKDAY_OPTIONS.map((label, i) => (
+                  <option key={label} value={i}>{label}</option>
+                ))}
+              </select>
+            </FormField>
+          </>
+        )}
+
+        {needsDayOfMonth && monthDayRule === 'day-of-month' && (
           <FormField label="Day of Month">
             <Input
               type="number"
               value={dayOfMonth}
               onChange={(e) => setDayOfMonth(Number(e.target.value))}
               min={1}
-              max={28}
+              max={31}
+            />
+          </FormField>
+        )}
+
+        {frequency === 'semimonthly' && !isPercent && (
+          <>
+            <FormField label="First Pay Day">
+              <select
+                className={selectClass}
+                value={semimonthlyDays[0]}
+                onChange={(e) => setSemimonthlyDays([Number(e.target.value), semimonthlyDays[1]])}
+              >
+                {SEMIMONTHLY_DAY_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </FormField>
+            <FormField label="Second Pay Day">
+              <select
+                className={selectClass}
+                value={semimonthlyDays[1]}
+                onChange={(e) => setSemimonthlyDays([semimonthlyDays[0], Number(e.target.value)])}
+              >
+                {SEMIMONTHLY_DAY_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </FormField>
+          </>
+        )}
+
+        {frequency === 'every-n-months' && !isPercent && (
+          <FormField label="Every (months)">
+            <Input
+              type="number"
+              value={intervalMonths}
+              onChange={(e) => setIntervalMonths(Number(e.target.value))}
+              min={1}
+              max={60}
             />
           </FormField>
         )}
 
         {needsAnchorDate && (
-          <FormField label="Reference Date" hint="A date this payment is known to occur">
+          <FormField
+            label="Reference Date"
+            hint={isMonthInterval
+              ? 'A date in a month this payment occurs (defaults to the start date)'
+              : 'A date this payment is known to occur'}
+          >
             <Input
               type="date"
               value={anchorDate}
@@ -337,6 +712,16 @@ export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequen
           </FormField>
         )}
 
+        {!isPercent && (
+          <FormField label="On Weekends & Holidays" hint="Where the payment posts if the date falls on a day banks are closed">
+            <select className={selectClass} value={businessDayShift} onChange={(e) => setBusinessDayShift(e.target.value as BusinessDayShift)}>
+              {BUSINESS_DAY_SHIFT_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </FormField>
+        )}
+
         <FormField label={frequency === 'one-time' ? 'Date' : 'Start Date'}>
           <Input
             type="date"
@@ -356,6 +741,83 @@ export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequen
           </FormField>
         )}
 
+        {frequency !== 'one-time' && !showFinancingDetails && !isPercent && (
+          <>
+            <FormField label="Annual Increase (%)" hint="Raises or inflation, from the forecast start. 0 = flat.">
+              <Input
+                type="number"
+                value={escalationRate}
+                onChange={(e) => setEscalationRate(Number(e.target.value))}
+                step={0.1}
+              />
+            </FormField>
+            {escalationRate !== 0 && (
+              <FormField label="Increase Applied">
+                <select className={selectClass} value={escalationMode} onChange={(e) => setEscalationMode(e.target.value as EscalationMode)}>
+                  {ESCALATION_MODE_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                  ))}
+                </select>
+              </FormField>
+            )}
+            {escalationRate !== 0 && escalationMode === 'yearly-step' && (
+              <FormField label="Each Year On">
+                <select className={selectClass} value={escalationMonth} onChange={(e) => setEscalationMonth(Number(e.target.value))}>
+                  {MONTH_OPTIONS.map((label, i) => (
+                    <option key={label} value={i + 1}>{label} 1</option>
+                  ))}
+                </select>
+              </FormField>
+            )}
+          </>
+        )}
+
+        {!showFinancingDetails && !isPercent && (
+          <FormField label="Amount Varies" hint="For the forecast's likely range. Each payment can land anywhere in it.">
+            <select className={selectClass} value={variability} onChange={(e) => setVariability(e.target.value as VariabilityKind)}>
+              {VARIABILITY_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </FormField>
+        )}
+
+        {!showFinancingDetails && !isPercent && variability === 'percent' && (
+          <FormField label="Give or Take (%)" hint={`e.g. 15 = anywhere from ${formatRangeDollars(amount * 0.85)} to ${formatRangeDollars(amount * 1.15)}`}>
+            <Input
+              type="number"
+              value={rangePercent}
+              onChange={(e) => setRangePercent(Number(e.target.value))}
+              min={0}
+              max={100}
+              step={1}
+            />
+          </FormField>
+        )}
+
+        {!showFinancingDetails && !isPercent && variability === 'range' && (
+          <>
+            <FormField label="Low">
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+                <CalculatorInput value={rangeMin} onChange={setRangeMin} min={0} className={`${calcInputClass} pl-7`} />
+              </div>
+            </FormField>
+            <FormField label="Most Likely">
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+                <CalculatorInput value={rangeLikely} onChange={setRangeLikely} min={0} className={`${calcInputClass} pl-7`} />
+              </div>
+            </FormField>
+            <FormField label="High">
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+                <CalculatorInput value={rangeMax} onChange={setRangeMax} min={0} className={`${calcInputClass} pl-7`} />
+              </div>
+            </FormField>
+          </>
+        )}
+
         {showFinancingDetails && startDate && loanTermMonths > 0 && (
           <FormField label="Payments End">
             <p className="text-sm tabular-nums py-2">
@@ -377,3 +839,103 @@ export function StreamEditor({ stream, defaultType, defaultCategory, lockFrequen
     </form>
   );
 }
+
+/** Which "Amount Varies" option a saved range corresponds to. */
+function initialVariability(range: AmountRange | undefined): VariabilityKind {
+  if (!range) return 'exact';
+  return range.percent ? 'percent' : 'range';
+}
+
+function formatRangeDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+/** Drop deduction lines that were added but never filled in. */
+function withoutBlankLines(paycheck: Paycheck): Paycheck {
+  const keep = (lines: PaycheckLine[] | undefined) => (lines ?? []).filter((l) => l.name || l.amount);
+  return { preTax: keep(paycheck.preTax), withholdings: keep(paycheck.withholdings), postTax: keep(paycheck.postTax) };
+}
+
+/** Split a comma-separated tag list, dropping blanks and repeats. */
+function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map((t) => t.trim()).filter(Boolean))];
+}
+
+interface PaycheckEditorProps {
+  paycheck: Paycheck;
+  gross: number;
+  onChange: (paycheck: Paycheck) => void;
+}
+
+/** Deduction lines for a gross-pay income stream, with the resulting take-home. */
+function PaycheckEditor({ paycheck, gross, onChange }: PaycheckEditorProps) {
+  const { net } = computePaycheck(gross, paycheck);
+
+  function updateLines(key: keyof Paycheck, lines: PaycheckLine[]) {
+    onChange({ ...paycheck, [key]: lines });
+  }
+
+  return (
+    <div className="col-span-full rounded-lg border bg-muted/30 p-4 space-y-4">
+      {PAYCHECK_SECTIONS.map(({ key, label, hint }) => {
+        const lines = paycheck[key] ?? [];
+        return (
+          <div key={key} className="space-y-2">
+            <div className="flex items-baseline gap-2">
+              <span className="text-sm font-medium">{label}</span>
+              <span className="text-xs text-muted-foreground">{hint}</span>
+            </div>
+            {lines.map((line, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <Input
+                  type="text"
+                  value={line.name}
+                  onChange={(e) => updateLines(key, lines.map((l, j) => (j === i ? { ...l, name: e.target.value } : l)))}
+                  placeholder="Name"
+                  className="flex-1"
+                />
+                <Input
+                  type="number"
+                  value={line.amount}
+                  onChange={(e) => updateLines(key, lines.map((l, j) => (j === i ? { ...l, amount: Number(e.target.value) } : l)))}
+                  min={0}
+                  step={0.01}
+                  className="w-28 tabular-nums"
+                />
+                <select
+                  className={`${selectClass} w-16`}
+                  value={line.isPercent ? '%' : '$'}
+                  onChange={(e) => updateLines(key, lines.map((l, j) => (j === i ? { ...l, isPercent: e.target.value === '%' } : l)))}
+                >
+                  <option value="$">$</option>
+                  <option value="%">%</option>
+                </select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="xs"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => updateLines(key, lines.filter((_, j) => j !== i))}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="xs"
+              onClick={() => updateLines(key, [...lines, { name: '', amount: 0 }])}
+            >
+              + Add line
+            </Button>
+          </div>
+        );
+      })}
+
+      <p className="text-sm">
+        Take-home per paycheck: <strong className="tabular-nums">${net.toLocaleString()}</strong>
+      </p>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@
 
 import { useState } from 'react';
 import type { CashStream, StreamType, ExpenseCategory } from '../engine';
+import { formatSemimonthlyDays } from '../engine';
 import { StreamEditor } from './StreamEditor';
 
 interface StreamListProps {
@@ -21,9 +22,20 @@ const FREQUENCY_LABELS: Record<string, string> = {
   biweekly: 'Every 2 weeks',
   semimonthly: '1st & 15th',
   monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+  'every-n-months': 'Every N months',
   'one-time': 'One-time',
 };
 
+function frequencyLabel(stream: CashStream): string {
+  if (stream.frequency === 'every-n-months') {
+    return `Every ${stream.intervalMonths ?? 1} months`;
+  }
+  if (stream.frequency === 'semimonthly') return formatSemimonthlyDays(stream);
+  return FREQUENCY_LABELS[stream.frequency];
+}
+
 // Convert any frequency to a monthly equivalent for subtotals
 function monthlyEquivalent(stream: CashStream): number {
   switch (stream.frequency) {
@@ -31,6 +43,9 @@ function monthlyEquivalent(stream: CashStream): number {
     case 'biweekly': return stream.amount * 26 / 12;
     case 'semimonthly': return stream.amount * 2;
     case 'monthly': return stream.amount;
+    case 'quarterly': return stream.amount / 3;
+    case 'yearly': return stream.amount / 12;
+    case 'every-n-months': return stream.amount / Math.max(1, stream.intervalMonths ?? 1);
     case 'one-time': return 0; // Not a monthly rate
   }
 }
@@ -210,7 +225,7 @@ function StreamGroup({
             <div className="stream-info">
               <span className="stream-name">{stream.name}</span>
               <span className="stream-details">
-                ${stream.amount.toLocaleString()} · {FREQUENCY_LABELS[stream.frequency]}
+                ${stream.amount.toLocaleString()} · {frequencyLabel(stream)}
                 {stream.endDate && ` · ends ${stream.endDate}`}
               </span>
             </div>
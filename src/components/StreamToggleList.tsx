@@ -16,9 +16,16 @@ const FREQUENCY_SHORT: Record<string, string> = {
   biweekly: '/2wk',
   semimonthly: '/2×mo',
   monthly: '/mo',
+  quarterly: '/qtr',
+  yearly: '/yr',
   'one-time': 'once',
 };
 
+function frequencyShort(stream: CashStream): string {
+  if (stream.frequency === 'every-n-months') return `/${stream.intervalMonths ?? 1}mo`;
+  return FREQUENCY_SHORT[stream.frequency];
+}
+
 function formatCurrency(value: number): string {
   return '$' + Math.round(value).toLocaleString();
 }
@@ -186,7 +193,7 @@ function StreamToggleRow({ stream, disabled, override, onToggle, onOverride }: S
       </div>
 
       <span className={cn("text-xs text-muted-foreground flex-shrink-0 w-12 text-right tabular-nums", disabled && "line-through")}>
-        {FREQUENCY_SHORT[stream.frequency]}
+        {frequencyShort(stream)}
       </span>
     </div>
   );
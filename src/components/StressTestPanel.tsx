@@ -0,0 +1,156 @@
+/**
+ * One-click stress tests: shocks to the baseline, each shown as its own
+ * line on the chart and column in the metrics table.
+ */
+
+import { useState } from 'react';
+import type { CashStream, StressTestConfig } from '../engine';
+import { CalculatorInput } from './CalculatorInput';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface StressTestPanelProps {
+  streams: CashStream[]; // Baseline streams; income ones can be paused
+  startDate: string; // Forecast start, the default date for each shock
+  stressTests: StressTestConfig[]; // The stress tests currently turned on
+  onChange: (stressTests: StressTestConfig[]) => void;
+}
+
+const JOB_LOSS_ID = 'stress-job-loss';
+const SURPRISE_ID = 'stress-surprise-expense';
+const SPENDING_ID = 'stress-variable-spending';
+
+const selectClass = "h-8 rounded-md border border-input bg-transparent px-2 text-sm";
+
+export function StressTestPanel({ streams, startDate, stressTests, onChange }: StressTestPanelProps) {
+  const incomeStreams = streams.filter((s) => s.type === 'income' && !s.percentOf);
+  const active = new Set(stressTests.map((t) => t.id));
+  const existing = (id: string) => stressTests.find((t) => t.id === id);
+
+  // Settings are kept while a test is off, so turning it back on restores them
+  const [drafts, setDrafts] = useState<Record<string, StressTestConfig>>(() => ({
+    [JOB_LOSS_ID]: existing(JOB_LOSS_ID) ?? {
+      id: JOB_LOSS_ID,
+      name: 'Job loss',
+      pauseIncome: { streamId: incomeStreams[0]?.id ?? '', startDate, months: 3 },
+    },
+    [SURPRISE_ID]: existing(SURPRISE_ID) ?? {
+      id: SURPRISE_ID,
+      name: 'Surprise expense',
+      surpriseExpense: { amount: 5000, date: startDate },
+    },
+    [SPENDING_ID]: existing(SPENDING_ID) ?? {
+      id: SPENDING_ID,
+      name: 'Spending up',
+      variableSpendingIncrease: 20,
+    },
+  }));
+
+  function emit(nextDrafts: Record<string, StressTestConfig>, nextActive: Set<string>) {
+    onChange(Object.values(nextDrafts).filter((t) => nextActive.has(t.id)));
+  }
+
+  function toggle(id: string, on: boolean) {
+    const nextActive = new Set(active);
+    if (on) nextActive.add(id);
+    else nextActive.delete(id);
+    emit(drafts, nextActive);
+  }
+
+  function update(id: string, changes: Partial<StressTestConfig>) {
+    const nextDrafts = { ...drafts, [id]: { ...drafts[id], ...changes } };
+    setDrafts(nextDrafts);
+    if (active.has(id)) emit(nextDrafts, active);
+  }
+
+  const jobLoss = drafts[JOB_LOSS_ID].pauseIncome!;
+  const surprise = drafts[SURPRISE_ID].surpriseExpense!;
+  const increase = drafts[SPENDING_ID].variableSpendingIncrease ?? 0;
+
+  return (
+    <Card className="p-5 gap-3">
+      <div>
+        <h3 className="text-sm font-semibold">Stress Tests</h3>
+        <p className="text-[0.8125rem] text-muted-foreground">How fragile is the baseline? Turn on a shock to see it on the chart.</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Checkbox
+          id={JOB_LOSS_ID}
+          checked={active.has(JOB_LOSS_ID)}
+          disabled={incomeStreams.length === 0}
+          onCheckedChange={(checked) => toggle(JOB_LOSS_ID, checked === true)}
+        />
+        <Label htmlFor={JOB_LOSS_ID} className="font-medium">Lose</Label>
+        <select
+          className={selectClass}
+          value={jobLoss.streamId}
+          onChange={(e) => update(JOB_LOSS_ID, { pauseIncome: { ...jobLoss, streamId: e.target.value } })}
+        >
+          {incomeStreams.map((s) => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        <span>for</span>
+        <Input
+          type="number"
+          className="h-8 w-16"
+          value={jobLoss.months}
+          min={1}
+          onChange={(e) => update(JOB_LOSS_ID, { pauseIncome: { ...jobLoss, months: Number(e.target.value) } })}
+        />
+        <span>months from</span>
+        <Input
+          type="date"
+          className="h-8 w-40"
+          value={jobLoss.startDate}
+          onChange={(e) => update(JOB_LOSS_ID, { pauseIncome: { ...jobLoss, startDate: e.target.value } })}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Checkbox
+          id={SURPRISE_ID}
+          checked={active.has(SURPRISE_ID)}
+          onCheckedChange={(checked) => toggle(SURPRISE_ID, checked === true)}
+        />
+        <Label htmlFor={SURPRISE_ID} className="font-medium">Surprise expense of</Label>
+        <div className="relative w-28">
+          <span className="absolute left-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+          <CalculatorInput
+            value={surprise.amount}
+            onChange={(amount) => update(SURPRISE_ID, { surpriseExpense: { ...surprise, amount } })}
+            min={0}
+            className="flex h-8 w-full rounded-md border border-input bg-transparent pl-5 pr-2 text-sm tabular-nums"
+          />
+        </div>
+        <span>on</span>
+        <Input
+          type="date"
+          className="h-8 w-40"
+          value={surprise.date}
+          onChange={(e) => update(SURPRISE_ID, { surpriseExpense: { ...surprise, date: e.target.value } })}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Checkbox
+          id={SPENDING_ID}
+          checked={active.has(SPENDING_ID)}
+          onCheckedChange={(checked) => toggle(SPENDING_ID, checked === true)}
+        />
+        <Label htmlFor={SPENDING_ID} className="font-medium">Variable spending up</Label>
+        <Input
+          type="number"
+          className="h-8 w-20"
+          value={increase}
+          step={5}
+          onChange={(e) => update(SPENDING_ID, { variableSpendingIncrease: Number(e.target.value) })}
+        />
+        <span>%</span>
+      </div>
+    </Card>
+  );
+}
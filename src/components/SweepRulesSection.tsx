@@ -0,0 +1,152 @@
+import { v4 as uuid } from 'uuid';
+import type { Account, SweepRule, SweepRuleType } from '../engine';
+import { isDebtAccount } from '../engine';
+import { CalculatorInput } from './CalculatorInput';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface SweepRulesSectionProps {
+  sweepRules: SweepRule[];
+  accounts: Account[]; // Ledger accounts; only cash accounts can sweep
+  safetyBuffer: number; // Default threshold for a new top-up rule
+  onChange: (sweepRules: SweepRule[]) => void;
+}
+
+const selectClass = "h-8 rounded-md border border-input bg-transparent px-2 text-sm";
+const amountClass = "flex h-8 w-full rounded-md border border-input bg-transparent pl-5 pr-2 text-sm tabular-nums";
+
+const DAY_OPTIONS = Array.from({ length: 31 }, (_, i) => i + 1);
+
+/**
+ * Automatic moves between accounts, checked at the end of every day after
+ * everything else has posted. Rules run top to bottom.
+ */
+export function SweepRulesSection({ sweepRules, accounts, safetyBuffer, onChange }: SweepRulesSectionProps) {
+  const cashAccounts = accounts.filter((a) => !isDebtAccount(a.accountType));
+  const checking = cashAccounts.find((a) => a.accountType === 'checking') ?? cashAccounts[0];
+  const savings = cashAccounts.find((a) => a.accountType === 'savings') ?? cashAccounts[1];
+
+  function handleAdd(type: SweepRuleType) {
+    if (!checking || !savings) return;
+    const rule: SweepRule = type === 'top-up'
+      ? {
+          id: uuid(),
+          name: `Top up ${checking.name}`,
+          type,
+          account: checking.id,
+          otherAccount: savings.id,
+          threshold: safetyBuffer,
+        }
+      : {
+          id: uuid(),
+          name: `Sweep to ${savings.name}`,
+          type,
+          account: checking.id,
+          otherAccount: savings.id,
+          threshold: safetyBuffer * 2,
+          dayOfMonth: 1,
+        };
+    onChange([...sweepRules, rule]);
+  }
+
+  function update(id: string, changes: Partial<SweepRule>) {
+    onChange(sweepRules.map((r) => (r.id === id ? { ...r, ...changes } : r)));
+  }
+
+  const accountSelect = (rule: SweepRule, field: 'account' | 'otherAccount') => (
+    <select
+      className={selectClass}
+      value={rule[field]}
+      onChange={(e) => update(rule.id, { [field]: e.target.value })}
+    >
+      {cashAccounts.map((a) => (
+        <option key={a.id} value={a.id}>{a.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/50 p-4">
+      <p className="text-sm text-muted-foreground">
+        Checked at the end of each day, in order. Moves show up in the forecast as sweeps.
+      </p>
+
+      {sweepRules.map((rule) => (
+        <div key={rule.id} className="space-y-2 border-b pb-3 last:border-b-0">
+          <div className="flex items-center gap-2">
+            <Input
+              value={rule.name}
+              onChange={(e) => update(rule.id, { name: e.target.value })}
+              className="h-8 w-56"
+              aria-label="Rule name"
+            />
+            <button
+              type="button"
+              className="ml-auto text-muted-foreground hover:text-foreground cursor-pointer"
+              aria-label={`Remove ${rule.name}`}
+              onClick={() => onChange(sweepRules.filter((r) => r.id !== rule.id))}
+            >
+              ×
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {rule.type === 'top-up' ? (
+              <>
+                <span>When</span>
+                {accountSelect(rule, 'account')}
+                <span>drops below</span>
+              </>
+            ) : (
+              <>
+                <select
+                  className={selectClass}
+                  value={rule.dayOfMonth ?? ''}
+                  onChange={(e) => update(rule.id, { dayOfMonth: e.target.value ? Number(e.target.value) : undefined })}
+                >
+                  <option value="">Every day</option>
+                  {DAY_OPTIONS.map((day) => (
+                    <option key={day} value={day}>On day {day}</option>
+                  ))}
+                </select>
+                <span>move</span>
+                {accountSelect(rule, 'account')}
+                <span>above</span>
+              </>
+            )}
+            <div className="relative w-28">
+              <span className="absolute left-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+              <CalculatorInput
+                value={rule.threshold}
+                onChange={(threshold) => update(rule.id, { threshold })}
+                min={0}
+                className={amountClass}
+              />
+            </div>
+            <span>{rule.type === 'top-up' ? ', pull from' : 'into'}</span>
+            {accountSelect(rule, 'otherAccount')}
+            <span>up to</span>
+            <div className="relative w-28">
+              <span className="absolute left-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+              <CalculatorInput
+                value={rule.maxAmount ?? 0}
+                onChange={(maxAmount) => update(rule.id, { maxAmount: maxAmount > 0 ? maxAmount : undefined })}
+                min={0}
+                className={amountClass}
+              />
+            </div>
+            <span className="text-xs text-muted-foreground">(0 = no limit)</span>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" disabled={!checking || !savings} onClick={() => handleAdd('top-up')}>
+          Add Top-Up Rule
+        </Button>
+        <Button size="sm" variant="outline" disabled={!checking || !savings} onClick={() => handleAdd('sweep-excess')}>
+          Add Sweep Rule
+        </Button>
+      </div>
+    </div>
+  );
+}
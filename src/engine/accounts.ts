@@ -0,0 +1,87 @@
+/**
+ * Account ledger helpers.
+ *
+ * Streams point at accounts by `Account.id`. Older streams (and the demo
+ * data) still use the literal 'checking' / 'savings', which resolve to the
+ * first account of that type. These helpers keep that lookup in one place
+ * so the engine and the UI agree on where money lands.
+ */
+
+import type { Account, ScenarioConfig, FinancialAccountType } from './types';
+
+/**
+ * Build the list of accounts the forecast tracks.
+ *
+ * Every ledger has at least one checking and one savings account. If the
+ * scenario doesn't define one, a placeholder is created from the legacy
+ * `checkingBalance` / `savingsBalance` fields.
+ *
+ * The first checking and savings accounts ("primary" accounts) open at
+ * `config.checkingBalance` / `config.savingsBalance`. The app keeps these in
+ * sync with the accounts array, and decisions adjust them for upfront costs.
+ */
+export function getLedgerAccounts(config: ScenarioConfig): Account[] {
+  const accounts = (config.accounts ?? []).map((a) => ({ ...a }));
+
+  const primaryChecking = accounts.find((a) => a.accountType === 'checking');
+  if (primaryChecking) {
+    primaryChecking.balance = config.checkingBalance;
+  } else {
+    accounts.unshift({
+      id: 'checking',
+      name: 'Checking',
+      accountType: 'checking',
+      balance: config.checkingBalance,
+    });
+  }
+
+  const primarySavings = accounts.find((a) => a.accountType === 'savings');
+  if (primarySavings) {
+    primarySavings.balance = config.savingsBalance;
+  } else {
+    accounts.push({
+      id: 'savings',
+      name: 'Savings',
+      accountType: 'savings',
+      balance: config.savingsBalance,
+    });
+  }
+
+  return accounts;
+}
+
+/**
+ * Find the account a stream reference points at.
+ *
+ * Matches by id first, then treats 'checking' / 'savings' as "the first
+ * account of that type". Returns undefined if nothing matches.
+ */
+export function resolveAccount(
+  accounts: Account[],
+  ref: string | undefined
+): Account | undefined {
+  if (!ref) return undefined;
+  const byId = accounts.find((a) => a.id === ref);
+  if (byId) return byId;
+  if (ref === 'checking' || ref === 'savings') {
+    return accounts.find((a) => a.accountType === ref);
+  }
+  return undefined;
+}
+
+/**
+ * Resolve an account reference to an id, falling back to a primary account
+ * when the reference doesn't match anything (e.g. the account was deleted).
+ */
+export function resolveAccountId(
+  accounts: Account[],
+  ref: string | undefined,
+  fallback: 'checking' | 'savings'
+): string {
+  return (resolveAccount(accounts, ref) ?? resolveAccount(accounts, fallback))!.id;
+}
+
+/** Credit cards and loans hold money owed rather than money held. */
+export function isDebtAccount(accountType: FinancialAccountType): boolean {
+  return accountType === 'credit-card' || accountType === 'loan';
+}
@@ -0,0 +1,104 @@
+/**
+ * Stream amounts over time: step changes, raises and inflation.
+ *
+ * A stream's `amount` is what it costs (or pays) at the start of the
+ * forecast. Dated step changes replace it from a given day on
+ * ("$2,700 until July, then $2,850").
+ *
+ * Escalation grows the amount in effect, counting from the forecast start
+ * or from the step change that set it, whichever is later:
+ * - yearly-step: a raise once a year on the 1st of a month (e.g. +3% every Jan 1)
+ * - monthly-compound: steady growth at the annual rate, compounded monthly
+ *
+ * Variable expenses without their own rule follow the scenario's default
+ * inflation rate, compounded monthly. Loan payment streams keep their
+ * fixed payment — the loan sets that, not inflation.
+ */
+
+import { differenceInCalendarMonths, getMonth, getYear, parseISO } from 'date-fns';
+import type { AmountChange, CashStream, EscalationMode } from './types';
+
+/** The step change in effect on an ISO date, if any. */
+function getAmountChange(stream: CashStream, isoDate: string): AmountChange | undefined {
+  let current: AmountChange | undefined;
+  for (const change of stream.amountChanges ?? []) {
+    if (change.date <= isoDate && (!current || change.date >= current.date)) current = change;
+  }
+  return current;
+}
+
+/** The stream's amount on an ISO date, with step changes but before escalation. */
+export function getScheduledAmount(stream: CashStream, isoDate: string): number {
+  return getAmountChange(stream, isoDate)?.amount ?? stream.amount;
+}
+
+/** Step changes that take effect after an ISO date, earliest first. */
+export function getUpcomingAmountChanges(stream: CashStream, isoDate: string): AmountChange[] {
+  return (stream.amountChanges ?? [])
+    .filter((change) => change.date > isoDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** The rate and mode a stream's amount grows by, or undefined if it stays flat. */
+function escalationFor(
+  stream: CashStream,
+  defaultInflationRate: number | undefined
+): { rate: number; mode: EscalationMode } | undefined {
+  if (stream.escalationRate) {
+    return { rate: stream.escalationRate / 100, mode: stream.escalationMode ?? 'yearly-step' };
+  }
+  if (defaultInflationRate && stream.type === 'expense' && stream.category === 'variable') {
+    return { rate: defaultInflationRate / 100, mode: 'monthly-compound' };
+  }
+  return undefined;
+}
+
+/**
+ * The stream's amount for an occurrence on `date`: the step change in
+ * effect, grown from the forecast start (`forecastStart`) or the change's
+ * date if later.
+ */
+export function getAmountOnDate(
+  stream: CashStream,
+  date: Date,
+  forecastStart: Date,
+  defaultInflationRate?: number
+): number {
+  const change = getAmountChange(stream, toISODate(date));
+  const amount = change?.amount ?? stream.amount;
+  const changeDate = change && parseISO(change.date);
+  const baseDate = changeDate && changeDate > forecastStart ? changeDate : forecastStart;
+
+  const escalation = escalationFor(stream, defaultInflationRate);
+  if (!escalation || date <= baseDate) return amount;
+
+  if (escalation.mode === 'monthly-compound') {
+    const months = differenceInCalendarMonths(date, baseDate);
+    return round2(amount * Math.pow(1 + escalation.rate / 12, months));
+  }
+
+  const steps = countRaises(baseDate, date, (stream.escalationMonth ?? 1) - 1);
+  return round2(amount * Math.pow(1 + escalation.rate, steps));
+}
+
+/**
+ * How many raise dates (the 1st of `month`, 0-based) fall after `from`
+ * and on or before `to`. A raise on the forecast's first day is assumed to
+ * be in the amount already.
+ */
+function countRaises(from: Date, to: Date, month: number): number {
+  const passed = (d: Date) => (getMonth(d) >= month ? 1 : 0);
+  return getYear(to) - getYear(from) + passed(to) - passed(from);
+}
+
+/** Format a Date as YYYY-MM-DD string for comparison. */
+function toISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
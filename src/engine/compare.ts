@@ -5,7 +5,8 @@
  * financial fragility compared to doing nothing?"
  */
 
-import type { ForecastMetrics, ComparisonMetrics } from './types';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { ForecastMetrics, ComparisonMetrics, GoalProgress, GoalComparison } from './types';
 
 /**
  * Compare two forecast results and compute the deltas.
@@ -31,6 +32,32 @@ export function compareScenarios(
   };
 }
 
+/**
+ * Compare each savings goal between baseline and decision forecasts.
+ *
+ * Convention:
+ * - daysDelta: positive = decision reaches the goal LATER (worse)
+ * - shortfallDelta: positive = decision falls further short (worse)
+ */
+export function compareGoals(
+  baseline: GoalProgress[],
+  decision: GoalProgress[]
+): GoalComparison[] {
+  return baseline.flatMap((base) => {
+    const dec = decision.find((g) => g.goalId === base.goalId);
+    if (!dec) return [];
+    return [{
+      goalId: base.goalId,
+      baseline: base,
+      decision: dec,
+      daysDelta: base.reachedDate && dec.reachedDate
+        ? differenceInCalendarDays(parseISO(dec.reachedDate), parseISO(base.reachedDate))
+        : null,
+      shortfallDelta: round2(dec.shortfall - base.shortfall),
+    }];
+  });
+}
+
 function round2(n: number): number {
   return Math.round(n * 100) / 100;
 }
@@ -0,0 +1,124 @@
+/**
+ * Credit card simulation.
+ *
+ * Each credit-card account carries a balance owed. Every day:
+ * - Interest accrues on the balance at APR / 365
+ * - Payments into the card (from transfer streams) count toward the cycle
+ *
+ * On the card's due day:
+ * - The accrued interest posts to the balance as a charge
+ * - If this cycle's payments don't cover the minimum payment, the
+ *   shortfall is paid automatically from primary checking
+ *
+ * Charges come from expense streams routed to the card — the ledger in
+ * forecast.ts already adds those to the balance owed.
+ */
+
+import { getDate, getDaysInMonth } from 'date-fns';
+import type { Account, Transaction } from './types';
+
+// Card due day when the account doesn't set one
+const DEFAULT_DUE_DAY = 1;
+
+interface CardCycle {
+  accruedInterest: number; // Interest accrued since the last due day, not yet posted
+  paidThisCycle: number; // Payments received since the last due day
+}
+
+/** Running per-card state, keyed by Account.id. */
+export type CreditCardState = Record<string, CardCycle>;
+
+/** Start a fresh billing cycle for every credit card in the ledger. */
+export function initCreditCardState(accounts: Account[]): CreditCardState {
+  const state: CreditCardState = {};
+  for (const account of accounts) {
+    if (account.accountType === 'credit-card') {
+      state[account.id] = { accruedInterest: 0, paidThisCycle: 0 };
+    }
+  }
+  return state;
+}
+
+/**
+ * Advance every credit card by one day.
+ *
+ * Call after the day's stream transactions have been applied to `balances`.
+ * Returns the interest charges and automatic minimum payments for the day;
+ * the caller applies them to the ledger.
+ */
+export function processCreditCards(
+  accounts: Account[],
+  state: CreditCardState,
+  date: Date,
+  balances: Record<string, number>,
+  todaysTransactions: Transaction[],
+  paymentAccountId: string
+): Transaction[] {
+  const transactions: Transaction[] = [];
+
+  for (const card of accounts) {
+    const cycle = state[card.id];
+    if (!cycle) continue;
+
+    for (const tx of todaysTransactions) {
+      if (tx.account === card.id && tx.amount > 0) {
+        cycle.paidThisCycle += tx.amount;
+      }
+    }
+
+    let balance = balances[card.id] ?? 0;
+    if (balance > 0 && card.interestRate) {
+      cycle.accruedInterest += balance * (card.interestRate / 100 / 365);
+    }
+
+    if (!isDueDay(date, card.dueDayOfMonth ?? DEFAULT_DUE_DAY)) continue;
+
+    const interest = round2(cycle.accruedInterest);
+    if (interest > 0) {
+      transactions.push({
+        streamId: card.id,
+        name: `${card.name} interest`,
+        amount: -interest,
+        account: card.id,
+        kind: 'interest',
+      });
+      balance += interest;
+    }
+
+    const minimumDue = Math.min(card.minimumPayment ?? 0, Math.max(balance, 0));
+    const shortfall = round2(minimumDue - cycle.paidThisCycle);
+    if (shortfall > 0) {
+      const name = `${card.name} minimum payment`;
+      transactions.push(
+        { streamId: card.id, name, amount: -shortfall, account: paymentAccountId, kind: 'minimum-payment' },
+        { streamId: card.id, name, amount: shortfall, account: card.id, kind: 'minimum-payment' }
+      );
+    }
+
+    state[card.id] = { accruedInterest: 0, paidThisCycle: 0 };
+  }
+
+  return transactions;
+}
+
+/**
+ * Whether a card is over its credit limit.
+ * Cards without a limit are never over it.
+ */
+export function isOverCreditLimit(account: Account, balance: number): boolean {
+  return (
+    account.accountType === 'credit-card' &&
+    account.creditLimit != null &&
+    account.creditLimit > 0 &&
+    balance > account.creditLimit
+  );
+}
+
+/** Due days past the end of a short month fall on its last day. */
+function isDueDay(date: Date, dueDay: number): boolean {
+  return getDate(date) === Math.min(dueDay, getDaysInMonth(date));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -42,20 +42,17 @@ export function applyDecision(
   // Add new streams
   streams = [...streams, ...decision.addStreams];
 
-  // Build the decision scenario config
+  // Build the decision scenario config. Everything the decision doesn't
+  // touch (holidays, inflation, goals, ...) carries over from the baseline.
   return {
+    ...baseline,
     id: decision.id,
     name: decision.name,
-    startDate: baseline.startDate,
-    endDate: baseline.endDate,
     checkingBalance:
       baseline.checkingBalance + (decision.checkingBalanceAdjustment ?? 0),
     savingsBalance:
       baseline.savingsBalance + (decision.savingsBalanceAdjustment ?? 0),
-    safetyBuffer: baseline.safetyBuffer,
     streams,
     accounts: baseline.accounts || [],
-    disabledStreamIds: baseline.disabledStreamIds,
-    streamOverrides: baseline.streamOverrides,
   };
 }
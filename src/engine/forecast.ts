@@ -7,28 +7,53 @@
  * Pure function: no side effects, no UI dependencies, no server dependencies.
  */
 
-import { parseISO, addDays, differenceInCalendarDays } from 'date-fns';
+import { parseISO, addDays, addYears, differenceInCalendarDays } from 'date-fns';
 import type {
   ScenarioConfig,
+  ForecastOptions,
   ForecastResult,
   ForecastMetrics,
+  RunwayMetrics,
   DailySnapshot,
   Transaction,
   CashStream,
+  Account,
 } from './types';
 import { doesStreamFireOnDate } from './schedule';
+import { getLedgerAccounts, resolveAccountId, isDebtAccount } from './accounts';
+import { initCreditCardState, processCreditCards, isOverCreditLimit } from './credit';
+import { getLoanPaymentLinks, processLoanPayments } from './loan';
+import { initGrowthState, processGrowth } from './growth';
+import { processSweeps } from './sweep';
+import { processOverdrafts } from './overdraft';
+import { buildHolidayCalendar, type HolidayCalendar } from './holidays';
+import { getAmountOnDate } from './amounts';
+import { resolvePercentSource, isWithinStreamDates } from './percent';
+import { computePaycheck } from './paycheck';
+import { drawAmount } from './uncertainty';
+import { trackGoals } from './goals';
 
 /**
  * Run a daily cashflow forecast for a scenario.
  *
  * Algorithm:
- * 1. Start with the configured checking and savings balances
+ * 1. Open a ledger with every account's starting balance
  * 2. For each day in the range, check every stream
- * 3. If a stream fires, apply the transaction to the right account
- * 4. Record the day's ending balances and transactions
- * 5. Compute summary metrics from the full daily array
+ * 3. If a stream fires, apply the transaction to the account it points at,
+ *    at the amount in effect that day (step changes, raises, inflation);
+ *    percentage streams follow the stream they're a share of, and
+ *    paycheck streams deposit their net pay; with a seed, streams with
+ *    an amount range draw their amount for that occurrence
+ *    (loan payment streams split into interest and principal instead)
+ * 4. Run the day's credit card activity (interest, automatic minimum payments)
+ * 5. Grow savings and investment accounts
+ * 6. Run the scenario's sweep rules on the day's ending balances, then
+ *    overdraft protection and fees on checking accounts still below $0
+ * 7. Record the day's ending balances and transactions
+ * 8. Compute summary metrics from the full daily array
+ * 9. Track each savings goal's progress
  */
-export function forecast(config: ScenarioConfig): ForecastResult {
+export function forecast(config: ScenarioConfig, options: ForecastOptions = {}): ForecastResult {
   const startDate = parseISO(config.startDate);
   const endDate = parseISO(config.endDate);
   const totalDays = differenceInCalendarDays(endDate, startDate) + 1;
@@ -39,34 +64,132 @@ export function forecast(config: ScenarioConfig): ForecastResult {
     .filter((s) => !disabledSet.has(s.id))
     .map((s) => (overrides[s.id] ? { ...s, ...overrides[s.id] } : s));
 
-  let checking = config.checkingBalance;
-  let savings = config.savingsBalance;
+  const accounts = getLedgerAccounts(config);
+  const balances: Record<string, number> = {};
+  for (const account of accounts) {
+    balances[account.id] = account.balance;
+  }
+  const primaryCheckingId = resolveAccountId(accounts, 'checking', 'checking');
+  const creditCards = initCreditCardState(accounts);
+  const growth = initGrowthState(accounts);
+  const loanLinks = getLoanPaymentLinks(accounts, activeStreams);
+  const loanStreamIds = new Set(loanLinks.map((l) => l.stream.id));
+  const regularStreams = activeStreams.filter((s) => !loanStreamIds.has(s.id));
+
+  // One extra year each side so shifts across New Year see the holidays
+  const holidays = buildHolidayCalendar(
+    startDate.getFullYear() - 1,
+    endDate.getFullYear() + 1,
+    config.customHolidays
+  );
+
+  const occurrences: OccurrenceContext = {
+    streams: activeStreams,
+    holidays,
+    forecastStart: startDate,
+    inflationRate: config.inflationRate,
+    seed: options.seed,
+  };
+
   const daily: DailySnapshot[] = [];
 
   for (let i = 0; i < totalDays; i++) {
     const currentDate = addDays(startDate, i);
-    const transactions = getTransactionsForDate(activeStreams, currentDate);
+    const transactions = [
+      ...getTransactionsForDate(regularStreams, currentDate, accounts, balances, occurrences),
+      ...processLoanPayments(loanLinks, currentDate, accounts, balances, holidays),
+    ];
 
-    // Apply each transaction to the appropriate account
+    // Apply each transaction to the account it resolved to
     for (const tx of transactions) {
-      if (tx.account === 'checking') {
-        checking += tx.amount;
-      } else {
-        savings += tx.amount;
-      }
+      applyTransaction(balances, accounts, tx);
     }
 
-    daily.push({
-      date: toISODate(currentDate),
-      checking: round2(checking),
-      savings: round2(savings),
+    const cardTransactions = processCreditCards(
+      accounts,
+      creditCards,
+      currentDate,
+      balances,
       transactions,
-    });
+      primaryCheckingId
+    );
+    for (const tx of cardTransactions) {
+      applyTransaction(balances, accounts, tx);
+    }
+    transactions.push(...cardTransactions);
+
+    const growthTransactions = processGrowth(accounts, growth, currentDate, balances);
+    for (const tx of growthTransactions) {
+      applyTransaction(balances, accounts, tx);
+    }
+    transactions.push(...growthTransactions);
+
+    const sweepTransactions = processSweeps(config.sweepRules ?? [], accounts, currentDate, balances);
+    for (const tx of sweepTransactions) {
+      applyTransaction(balances, accounts, tx);
+    }
+    transactions.push(...sweepTransactions);
+
+    const overdraftTransactions = processOverdrafts(accounts, balances, transactions);
+    for (const tx of overdraftTransactions) {
+      applyTransaction(balances, accounts, tx);
+    }
+    transactions.push(...overdraftTransactions);
+
+    daily.push(takeSnapshot(currentDate, accounts, balances, transactions));
   }
 
   const metrics = computeMetrics(daily, config.safetyBuffer);
+  const goals = trackGoals(config.goals ?? [], daily, accounts);
 
-  return { daily, metrics };
+  return { daily, metrics, goals };
+}
+
+/** What it takes to work out a stream's occurrences on a given day. */
+interface OccurrenceContext {
+  streams: CashStream[]; // Every active stream, for percentage stream sources
+  holidays: HolidayCalendar;
+  forecastStart: Date;
+  inflationRate?: number;
+  seed?: number; // Set for Monte Carlo runs: draw amounts for streams with an amountRange
+}
+
+/**
+ * The amount a stream posts on `date`, or undefined if it doesn't fire.
+ *
+ * A percentage stream fires whenever its source fires (within its own
+ * start/end dates), for its share of the source's amount that day.
+ * A paycheck stream's amount is gross pay, so it deposits the net; a
+ * percentage of a paycheck is a share of the gross, like a 401(k)
+ * contribution. In a seeded run, the drawn amount replaces the exact one
+ * (for a paycheck, the gross is drawn).
+ */
+function getOccurrenceAmount(
+  stream: CashStream,
+  date: Date,
+  context: OccurrenceContext
+): number | undefined {
+  if (stream.percentOf) {
+    const link = resolvePercentSource(stream, context.streams);
+    if (!link || !isWithinStreamDates(stream, toISODate(date))) return undefined;
+    const sourceAmount = getGrossAmount(link.source, date, context);
+    return sourceAmount === undefined ? undefined : round2(sourceAmount * link.fraction);
+  }
+
+  const amount = getGrossAmount(stream, date, context);
+  if (amount === undefined) return undefined;
+  return stream.paycheck ? computePaycheck(amount, stream.paycheck).net : amount;
+}
+
+/** A stream's amount on `date` before paycheck deductions, or undefined if it doesn't fire. */
+function getGrossAmount(
+  stream: CashStream,
+  date: Date,
+  context: OccurrenceContext
+): number | undefined {
+  if (!doesStreamFireOnDate(stream, date, context.holidays)) return undefined;
+  const amount = getAmountOnDate(stream, date, context.forecastStart, context.inflationRate);
+  return context.seed !== undefined ? drawAmount(stream, amount, context.seed, toISODate(date)) : amount;
 }
 
 /**
@@ -77,29 +200,47 @@ export function forecast(config: ScenarioConfig): ForecastResult {
  * - Income: positive amount to the stream's account
  * - Expense: negative amount from the stream's account
  * - Transfer: negative from source account, positive to target account
+ *   (with payUpToBalance, no more than a card or loan target still owes)
+ *
+ * Account references that don't match anything (e.g. the account was
+ * deleted) fall back to primary checking, or primary savings for a
+ * transfer's target.
  */
 function getTransactionsForDate(
   streams: CashStream[],
-  date: Date
+  date: Date,
+  accounts: Account[],
+  balances: Record<string, number>,
+  context: OccurrenceContext
 ): Transaction[] {
   const transactions: Transaction[] = [];
 
   for (const stream of streams) {
-    if (!doesStreamFireOnDate(stream, date)) continue;
+    let amount = getOccurrenceAmount(stream, date, context);
+    if (amount === undefined) continue;
+    const source = resolveAccountId(accounts, stream.account, 'checking');
 
     if (stream.type === 'transfer') {
+      const target = resolveAccountId(accounts, stream.targetAccount, 'savings');
+      const targetType = accounts.find((a) => a.id === target)?.accountType;
+      if (stream.payUpToBalance && targetType && isDebtAccount(targetType)) {
+        // Pay off what's owed as of this morning, never past zero
+        amount = round2(Math.min(amount, Math.max(balances[target] ?? 0, 0)));
+        if (amount <= 0) continue;
+      }
+
       // Transfer creates two transactions: debit from source, credit to target
       transactions.push({
         streamId: stream.id,
         name: stream.name,
-        amount: -stream.amount,
-        account: stream.account,
+        amount: -amount,
+        account: source,
       });
       transactions.push({
         streamId: stream.id,
         name: stream.name,
-        amount: stream.amount,
-        account: stream.targetAccount ?? 'savings',
+        amount,
+        account: target,
       });
     } else {
       // Income is positive, expense is negative
@@ -107,8 +248,8 @@ function getTransactionsForDate(
       transactions.push({
         streamId: stream.id,
         name: stream.name,
-        amount: sign * stream.amount,
-        account: stream.account,
+        amount: sign * amount,
+        account: source,
       });
     }
   }
@@ -116,13 +257,65 @@ function getTransactionsForDate(
   return transactions;
 }
 
+/**
+ * Apply one transaction to the ledger.
+ *
+ * Asset accounts go up with money in. Debt accounts track what's owed,
+ * so money in (a payment) brings the balance down and money out (a charge)
+ * pushes it up.
+ */
+function applyTransaction(
+  balances: Record<string, number>,
+  accounts: Account[],
+  tx: Transaction
+): void {
+  const account = accounts.find((a) => a.id === tx.account);
+  const isDebt = account ? isDebtAccount(account.accountType) : false;
+  balances[tx.account] = (balances[tx.account] ?? 0) + (isDebt ? -tx.amount : tx.amount);
+}
+
+/** Record a day's balances, with checking/savings totalled across accounts and net worth across all of them. */
+function takeSnapshot(
+  date: Date,
+  accounts: Account[],
+  balances: Record<string, number>,
+  transactions: Transaction[]
+): DailySnapshot {
+  let checking = 0;
+  let savings = 0;
+  let netWorth = 0;
+  const rounded: Record<string, number> = {};
+  const overLimitAccountIds: string[] = [];
+
+  for (const account of accounts) {
+    const balance = balances[account.id];
+    rounded[account.id] = round2(balance);
+    if (account.accountType === 'checking') checking += balance;
+    if (account.accountType === 'savings') savings += balance;
+    netWorth += isDebtAccount(account.accountType) ? -balance : balance;
+    if (isOverCreditLimit(account, balance)) overLimitAccountIds.push(account.id);
+  }
+
+  return {
+    date: toISODate(date),
+    checking: round2(checking),
+    savings: round2(savings),
+    netWorth: round2(netWorth),
+    balances: rounded,
+    overLimitAccountIds,
+    transactions,
+  };
+}
+
 /**
  * Compute summary metrics from the daily forecast.
  *
  * These metrics answer the fragility questions:
  * - How low does checking go? When?
  * - How many days are we below the safety buffer?
- * - Where do we end up?
+ * - Do any credit cards go over their limit?
+ * - What do overdrafts cost in fees?
+ * - Where do we end up, in checking and in net worth?
  */
 function computeMetrics(
   daily: DailySnapshot[],
@@ -135,8 +328,11 @@ function computeMetrics(
       maxChecking: 0,
       daysCheckingBelowBuffer: 0,
       daysCheckingBelowZero: 0,
+      daysOverCreditLimit: 0,
       endingChecking: 0,
       endingSavings: 0,
+      endingNetWorth: 0,
+      totalFees: 0,
       totalIncome: 0,
       totalExpenses: 0,
     };
@@ -147,6 +343,8 @@ function computeMetrics(
   let maxChecking = -Infinity;
   let daysCheckingBelowBuffer = 0;
   let daysCheckingBelowZero = 0;
+  let daysOverCreditLimit = 0;
+  let totalFees = 0;
   let totalIncome = 0;
   let totalExpenses = 0;
 
@@ -164,8 +362,18 @@ function computeMetrics(
     if (day.checking < 0) {
       daysCheckingBelowZero++;
     }
+    if (day.overLimitAccountIds.length > 0) {
+      daysOverCreditLimit++;
+    }
 
     for (const tx of day.transactions) {
+      if (tx.kind === 'overdraft-fee') {
+        totalFees += Math.abs(tx.amount);
+        totalExpenses += Math.abs(tx.amount);
+      }
+      // Interest, growth and engine-made moves between accounts aren't
+      // income or spending; only stream transactions (and fees) count
+      if (tx.kind) continue;
       if (tx.amount > 0) {
         totalIncome += tx.amount;
       } else {
@@ -182,13 +390,64 @@ function computeMetrics(
     maxChecking: round2(maxChecking),
     daysCheckingBelowBuffer,
     daysCheckingBelowZero,
+    daysOverCreditLimit,
     endingChecking: round2(lastDay.checking),
     endingSavings: round2(lastDay.savings),
+    endingNetWorth: round2(lastDay.netWorth),
+    totalFees: round2(totalFees),
     totalIncome: round2(totalIncome),
     totalExpenses: round2(totalExpenses),
   };
 }
 
+// Runway looks this far ahead, however long the scenario's own range is
+const RUNWAY_HORIZON_YEARS = 5;
+
+/**
+ * How long the money lasts if streams stop today.
+ *
+ * Re-runs the scenario from its start date without the stopped streams —
+ * every income stream unless `stoppedStreamIds` is given — and finds the
+ * first day checking drops below the safety buffer and the first day
+ * checking plus savings drops below zero. Expenses, loans, card interest
+ * and savings growth carry on as usual.
+ */
+export function computeRunway(
+  config: ScenarioConfig,
+  stoppedStreamIds?: string[]
+): RunwayMetrics {
+  const stopped = stoppedStreamIds ? new Set(stoppedStreamIds) : undefined;
+  const isStopped = (s: CashStream) => (stopped ? stopped.has(s.id) : s.type === 'income');
+  const horizonEnd = addDays(addYears(parseISO(config.startDate), RUNWAY_HORIZON_YEARS), -1);
+
+  const { daily } = forecast({
+    ...config,
+    endDate: toISODate(horizonEnd),
+    streams: config.streams.filter((s) => !isStopped(s)),
+  });
+
+  const runway: RunwayMetrics = {
+    daysToBuffer: null,
+    bufferDate: null,
+    daysToZero: null,
+    zeroDate: null,
+    horizonDays: daily.length,
+  };
+
+  daily.forEach((day, i) => {
+    if (runway.daysToBuffer === null && day.checking < config.safetyBuffer) {
+      runway.daysToBuffer = i;
+      runway.bufferDate = day.date;
+    }
+    if (runway.daysToZero === null && day.checking + day.savings < 0) {
+      runway.daysToZero = i;
+      runway.zeroDate = day.date;
+    }
+  });
+
+  return runway;
+}
+
 /** Round to 2 decimal places (avoid floating point drift). */
 function round2(n: number): number {
   return Math.round(n * 100) / 100;
@@ -0,0 +1,53 @@
+/**
+ * Savings goals: when does a goal's money get there, and what would it
+ * take to get there on time?
+ *
+ * A goal counts the combined balance of its accounts (an emergency fund
+ * split across two savings accounts, say). The forecast already knows every
+ * account's balance each day, so this just reads the daily snapshots.
+ */
+
+import { differenceInCalendarMonths, parseISO } from 'date-fns';
+import type { Account, DailySnapshot, Goal, GoalProgress } from './types';
+import { resolveAccount } from './accounts';
+
+/**
+ * Work out each goal's progress over a forecast.
+ *
+ * The monthly contribution needed spreads the shortfall over the whole
+ * months from the forecast start to the target date (at least one), on
+ * top of whatever the scenario already saves.
+ */
+export function trackGoals(goals: Goal[], daily: DailySnapshot[], accounts: Account[]): GoalProgress[] {
+  if (daily.length === 0) return [];
+  const forecastStart = daily[0].date;
+  const lastDay = daily[daily.length - 1];
+
+  return goals.map((goal) => {
+    const accountIds = goal.accountIds
+      .map((ref) => resolveAccount(accounts, ref)?.id)
+      .filter((id): id is string => id !== undefined);
+    const pooled = (day: DailySnapshot) => accountIds.reduce((sum, id) => sum + (day.balances[id] ?? 0), 0);
+
+    const reached = daily.find((day) => pooled(day) >= goal.targetAmount);
+    const onTargetDate = goal.targetDate > lastDay.date
+      ? lastDay
+      : daily.find((day) => day.date >= goal.targetDate) ?? lastDay;
+
+    const balanceAtTargetDate = round2(pooled(onTargetDate));
+    const shortfall = round2(Math.max(goal.targetAmount - balanceAtTargetDate, 0));
+    const months = Math.max(differenceInCalendarMonths(parseISO(goal.targetDate), parseISO(forecastStart)), 1);
+
+    return {
+      goalId: goal.id,
+      reachedDate: reached?.date ?? null,
+      balanceAtTargetDate,
+      shortfall,
+      monthlyContributionNeeded: round2(shortfall / months),
+    };
+  });
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
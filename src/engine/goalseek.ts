@@ -0,0 +1,103 @@
+/**
+ * Goal-seek: find the stream amount that just meets a goal.
+ *
+ * "What's the biggest car payment we can take on without dipping below
+ * the buffer?" is a search over one of a decision's streams: try an
+ * amount, run the decision's forecast, and narrow in on the boundary.
+ *
+ * Bisection over whole dollars. It assumes the goal flips once as the
+ * amount grows — true for a payment out of checking (more is always
+ * worse) or income into it (more is always better).
+ */
+
+import { applyDecision } from './decision';
+import { forecast } from './forecast';
+import type { ScenarioConfig, DecisionConfig, ForecastMetrics } from './types';
+
+export type GoalSeekGoal =
+  | 'max-within-buffer' // Largest amount with no days below the safety buffer
+  | 'min-for-ending-balance'; // Smallest amount that ends with at least the target checking balance
+
+export interface GoalSeekResult {
+  // found: `amount` meets the goal
+  // unreachable: no amount meets it (e.g. already below the buffer without the stream)
+  // unbounded: every amount up to the search limit meets it (max-within-buffer only)
+  status: 'found' | 'unreachable' | 'unbounded';
+  amount: number | null; // Whole dollars; null unless found
+  metrics: ForecastMetrics | null; // The decision's metrics at `amount`
+}
+
+// Stop growing the search range here — well past any household cashflow
+const MAX_AMOUNT = 10_000_000;
+
+/**
+ * Search over the amount of one of the decision's added streams.
+ *
+ * - max-within-buffer: the largest amount where daysCheckingBelowBuffer stays 0
+ * - min-for-ending-balance: the smallest amount where endingChecking is at
+ *   least `targetEndingBalance`
+ */
+export function solveStreamAmount(
+  baseline: ScenarioConfig,
+  decision: DecisionConfig,
+  streamId: string,
+  goal: GoalSeekGoal,
+  targetEndingBalance = 0
+): GoalSeekResult {
+  const stream = decision.addStreams.find((s) => s.id === streamId);
+  if (!stream || stream.percentOf) return { status: 'unreachable', amount: null, metrics: null };
+
+  const metricsAt = (amount: number): ForecastMetrics => {
+    const trial: DecisionConfig = {
+      ...decision,
+      addStreams: decision.addStreams.map((s) => (s.id === streamId ? { ...s, amount } : s)),
+    };
+    return forecast(applyDecision(baseline, trial)).metrics;
+  };
+  const meets = (m: ForecastMetrics) =>
+    goal === 'max-within-buffer'
+      ? m.daysCheckingBelowBuffer === 0
+      : m.endingChecking >= targetEndingBalance;
+
+  // For the max goal, low amounts meet it and high ones don't; the min goal
+  // is the other way round. `lo` always sits on the low side of the flip.
+  const lowSideMeets = goal === 'max-within-buffer';
+  const atZero = metricsAt(0);
+  if (meets(atZero) !== lowSideMeets) {
+    return lowSideMeets
+      ? { status: 'unreachable', amount: null, metrics: null }
+      : { status: 'found', amount: 0, metrics: atZero };
+  }
+
+  let lo = 0;
+  let hi = Math.max(Math.ceil(stream.amount), 100);
+  let hiMetrics = metricsAt(hi);
+  while (meets(hiMetrics) === lowSideMeets) {
+    lo = hi;
+    if (hi >= MAX_AMOUNT) {
+      return lowSideMeets
+        ? { status: 'unbounded', amount: null, metrics: null }
+        : { status: 'unreachable', amount: null, metrics: null };
+    }
+    hi = Math.min(hi * 2, MAX_AMOUNT);
+    hiMetrics = metricsAt(hi);
+  }
+
+  // Narrow to adjacent dollars: lo is on the low side, hi on the high side
+  let loMetrics = lo === 0 ? atZero : metricsAt(lo);
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    const midMetrics = metricsAt(mid);
+    if (meets(midMetrics) === lowSideMeets) {
+      lo = mid;
+      loMetrics = midMetrics;
+    } else {
+      hi = mid;
+      hiMetrics = midMetrics;
+    }
+  }
+
+  return lowSideMeets
+    ? { status: 'found', amount: lo, metrics: loMetrics }
+    : { status: 'found', amount: hi, metrics: hiMetrics };
+}
@@ -0,0 +1,84 @@
+/**
+ * Growth on savings and investment accounts.
+ *
+ * Savings accounts earn their APY; investment accounts earn their expected
+ * annual return. Both rates are effective annual rates, so a full year of
+ * growth adds exactly that percentage whichever compounding schedule is used:
+ * - daily: accrues on the balance plus interest accrued so far, each day
+ * - monthly: one month of growth on the month-end balance
+ *
+ * Either way, growth is credited to the account on the last day of each
+ * month, the way a bank posts interest.
+ */
+
+import { isLastDayOfMonth } from 'date-fns';
+import type { Account, Transaction } from './types';
+
+/** Interest accrued this month and not yet credited, keyed by Account.id. */
+export type GrowthState = Record<string, number>;
+
+/** Accounts that grow: savings and investments with a positive rate. */
+function grows(account: Account): boolean {
+  return (
+    (account.accountType === 'savings' || account.accountType === 'investment') &&
+    (account.growthRate ?? 0) > 0
+  );
+}
+
+/** Start with nothing accrued for every growing account. */
+export function initGrowthState(accounts: Account[]): GrowthState {
+  const state: GrowthState = {};
+  for (const account of accounts) {
+    if (grows(account)) state[account.id] = 0;
+  }
+  return state;
+}
+
+/**
+ * Advance growth by one day, using the day's ending balances.
+ * Returns the month-end credits; the caller applies them to the ledger.
+ */
+export function processGrowth(
+  accounts: Account[],
+  state: GrowthState,
+  date: Date,
+  balances: Record<string, number>
+): Transaction[] {
+  const transactions: Transaction[] = [];
+  const monthEnd = isLastDayOfMonth(date);
+
+  for (const account of accounts) {
+    if (!(account.id in state)) continue;
+
+    const balance = balances[account.id] ?? 0;
+    const annualRate = (account.growthRate ?? 0) / 100;
+
+    if (account.compounding === 'daily') {
+      const dailyRate = Math.pow(1 + annualRate, 1 / 365) - 1;
+      state[account.id] += Math.max(balance + state[account.id], 0) * dailyRate;
+    } else if (monthEnd) {
+      const monthlyRate = Math.pow(1 + annualRate, 1 / 12) - 1;
+      state[account.id] += Math.max(balance, 0) * monthlyRate;
+    }
+
+    if (!monthEnd) continue;
+
+    const credit = round2(state[account.id]);
+    state[account.id] = 0;
+    if (credit <= 0) continue;
+
+    transactions.push({
+      streamId: account.id,
+      name: `${account.name} ${account.accountType === 'savings' ? 'interest' : 'growth'}`,
+      amount: credit,
+      account: account.id,
+      kind: 'growth',
+    });
+  }
+
+  return transactions;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
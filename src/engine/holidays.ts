@@ -0,0 +1,82 @@
+/**
+ * Business days and the holiday calendar.
+ *
+ * Paydays and bills that land on a weekend or bank holiday usually move to
+ * the business day before or after. This module knows which days banks are
+ * closed so the schedule can shift stream occurrences onto business days.
+ *
+ * The built-in calendar is the US federal holidays, observed the way banks
+ * observe them: a holiday on a Sunday closes the bank on Monday, while a
+ * holiday on a Saturday isn't moved. Users can add their own holidays on top.
+ */
+
+import { addDays, getDay, getDaysInMonth } from 'date-fns';
+
+/** Dates banks are closed, as ISO date strings (YYYY-MM-DD). */
+export type HolidayCalendar = Set<string>;
+
+/** List the US federal holidays for a year, as observed by banks. */
+export function getUSFederalHolidays(year: number): string[] {
+  const fixed = [
+    new Date(year, 0, 1), // New Year's Day
+    new Date(year, 5, 19), // Juneteenth
+    new Date(year, 6, 4), // Independence Day
+    new Date(year, 10, 11), // Veterans Day
+    new Date(year, 11, 25), // Christmas Day
+  ].map((d) => (getDay(d) === 0 ? addDays(d, 1) : d));
+
+  const floating = [
+    nthWeekdayOfMonth(year, 0, 1, 3), // Martin Luther King Jr. Day: 3rd Monday in January
+    nthWeekdayOfMonth(year, 1, 1, 3), // Washington's Birthday: 3rd Monday in February
+    nthWeekdayOfMonth(year, 4, 1, -1), // Memorial Day: last Monday in May
+    nthWeekdayOfMonth(year, 8, 1, 1), // Labor Day: 1st Monday in September
+    nthWeekdayOfMonth(year, 9, 1, 2), // Columbus Day: 2nd Monday in October
+    nthWeekdayOfMonth(year, 10, 4, 4), // Thanksgiving: 4th Thursday in November
+  ];
+
+  return [...fixed, ...floating].map(toISODate).sort();
+}
+
+/**
+ * Build the holiday calendar for a range of years: the US federal holidays
+ * plus any custom holidays the user added.
+ */
+export function buildHolidayCalendar(
+  fromYear: number,
+  toYear: number,
+  customHolidays: string[] = []
+): HolidayCalendar {
+  const calendar: HolidayCalendar = new Set(customHolidays);
+  for (let year = fromYear; year <= toYear; year++) {
+    for (const holiday of getUSFederalHolidays(year)) calendar.add(holiday);
+  }
+  return calendar;
+}
+
+/** A business day is a Monday–Friday that isn't a holiday. */
+export function isBusinessDay(date: Date, holidays: HolidayCalendar): boolean {
+  const weekday = getDay(date);
+  if (weekday === 0 || weekday === 6) return false;
+  return !holidays.has(toISODate(date));
+}
+
+/**
+ * The date of the nth weekday of a month (month is 0-based).
+ * An ordinal of -1 gives the last one.
+ */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, ordinal: number): Date {
+  if (ordinal === -1) {
+    const last = new Date(year, month, getDaysInMonth(new Date(year, month, 1)));
+    return addDays(last, -((getDay(last) - weekday + 7) % 7));
+  }
+  const first = new Date(year, month, 1);
+  return addDays(first, ((weekday - getDay(first) + 7) % 7) + (ordinal - 1) * 7);
+}
+
+/** Format a Date as YYYY-MM-DD string for comparison. */
+function toISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -6,27 +6,72 @@
  */
 
 // Core functions
-export { forecast } from './forecast';
+export { forecast, computeRunway } from './forecast';
 export { applyDecision } from './decision';
-export { compareScenarios } from './compare';
-export { doesStreamFireOnDate } from './schedule';
+export { applyStressTest } from './stress';
+export { solveStreamAmount } from './goalseek';
+export { searchStartDates, shiftDecisionStart, getDecisionStart } from './timing';
+export { compareScenarios, compareGoals } from './compare';
+export {
+  doesStreamFireOnDate,
+  getSemimonthlyDays,
+  formatSemimonthlyDays,
+  LAST_DAY_OF_MONTH,
+} from './schedule';
 export { calculateMonthlyPayment } from './loan';
+export { planDebtPayoff, payoffStreams } from './payoff';
+export { getLedgerAccounts, resolveAccount, isDebtAccount } from './accounts';
+export { getUSFederalHolidays, isBusinessDay } from './holidays';
+export { getScheduledAmount, getUpcomingAmountChanges } from './amounts';
+export { resolvePercentSource } from './percent';
+export { computePaycheck } from './paycheck';
+export { runMonteCarlo } from './montecarlo';
+export { summarizeForecast } from './rollup';
+export { summarizeSpending, compareSpending, UNCATEGORIZED } from './spending';
 
 // All types
 export type {
   Frequency,
-  AccountType,
+  AccountRef,
   FinancialAccountType,
+  Compounding,
+  MonthDayRule,
+  BusinessDayShift,
+  EscalationMode,
   StreamType,
   ExpenseCategory,
   Account,
+  OverdraftFeeMode,
+  OverdraftPolicy,
   CashStream,
+  AmountChange,
+  Paycheck,
+  PaycheckLine,
+  AmountRange,
+  StreamPause,
+  Goal,
+  SweepRuleType,
+  SweepRule,
   ScenarioConfig,
   DecisionConfig,
   StreamModification,
+  StressTestConfig,
   DailySnapshot,
   Transaction,
+  TransactionKind,
+  ForecastOptions,
   ForecastResult,
   ForecastMetrics,
+  RunwayMetrics,
+  GoalProgress,
   ComparisonMetrics,
+  GoalComparison,
 } from './types';
+export type { HolidayCalendar } from './holidays';
+export type { PaycheckBreakdown, PaycheckDeduction, PaycheckSection } from './paycheck';
+export type { GoalSeekGoal, GoalSeekResult } from './goalseek';
+export type { StartDateCandidate, StartDateStep } from './timing';
+export type { PayoffStrategy, PayoffOptions, PayoffMonth, PayoffPlan } from './payoff';
+export type { MonteCarloOptions, MonteCarloResult, PercentileBand } from './montecarlo';
+export type { RollupPeriod, MonthlySummary, WeeklySummary } from './rollup';
+export type { SpendingMonth, SpendingBreakdown, CategoryChange } from './spending';
@@ -1,10 +1,19 @@
 /**
- * Loan payment calculator.
+ * Loan math.
  *
- * Standard amortization formula to calculate monthly payments
- * from principal, annual interest rate, and term in months.
+ * - calculateMonthlyPayment: standard amortization formula to calculate
+ *   monthly payments from principal, annual interest rate, and term in months.
+ * - processLoanPayments: amortizes loan accounts inside the forecast. Each
+ *   payment from a loan's linked stream splits into interest and principal,
+ *   and payments stop once the loan is paid off.
  */
 
+import type { Account, CashStream, Frequency, Transaction } from './types';
+import { doesStreamFireOnDate } from './schedule';
+import { getScheduledAmount } from './amounts';
+import type { HolidayCalendar } from './holidays';
+import { resolveAccountId } from './accounts';
+
 export function calculateMonthlyPayment(
   principal: number,
   annualRatePercent: number,
@@ -24,3 +33,116 @@ export function calculateMonthlyPayment(
   if (!isFinite(payment)) return 0;
   return Math.round(payment * 100) / 100;
 }
+
+// How many payments a year each frequency makes, for the per-payment interest rate.
+// One-time payments are charged a month of interest.
+const PAYMENTS_PER_YEAR: Record<Exclude<Frequency, 'every-n-months'>, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+  quarterly: 4,
+  yearly: 1,
+  'one-time': 12,
+};
+
+function paymentsPerYear(stream: CashStream): number {
+  if (stream.frequency === 'every-n-months') {
+    return 12 / Math.max(1, stream.intervalMonths ?? 1);
+  }
+  return PAYMENTS_PER_YEAR[stream.frequency];
+}
+
+/** A loan account and the stream that pays it. */
+export interface LoanPaymentLink {
+  loan: Account;
+  stream: CashStream;
+}
+
+/**
+ * Pair each loan account with its payment stream (`Account.paymentStreamId`).
+ * Loans without a link, or linked to a stream that isn't active, are skipped.
+ */
+export function getLoanPaymentLinks(
+  accounts: Account[],
+  streams: CashStream[]
+): LoanPaymentLink[] {
+  const links: LoanPaymentLink[] = [];
+  for (const loan of accounts) {
+    if (loan.accountType !== 'loan' || !loan.paymentStreamId) continue;
+    const stream = streams.find((s) => s.id === loan.paymentStreamId);
+    if (stream) links.push({ loan, stream });
+  }
+  return links;
+}
+
+/**
+ * Generate the day's loan payments.
+ *
+ * When a linked stream fires:
+ * 1. Interest for the period (balance × APR / payments per year) posts to the loan
+ * 2. The payment (the stream's amount in effect that day, with any step
+ *    changes) leaves the stream's account and lands on the loan
+ * 3. The last payment is trimmed to exactly what's left, and once the
+ *    balance reaches zero the stream stops firing
+ *
+ * Whatever the stream's type, a linked stream always pays into its loan.
+ */
+export function processLoanPayments(
+  links: LoanPaymentLink[],
+  date: Date,
+  accounts: Account[],
+  balances: Record<string, number>,
+  holidays: HolidayCalendar
+): Transaction[] {
+  const transactions: Transaction[] = [];
+  const isoDate = toISODate(date);
+
+  for (const { loan, stream } of links) {
+    const balance = balances[loan.id] ?? 0;
+    if (balance <= 0) continue;
+    if (!doesStreamFireOnDate(stream, date, holidays)) continue;
+
+    const periodicRate = (loan.interestRate ?? 0) / 100 / paymentsPerYear(stream);
+    const interest = round2(balance * periodicRate);
+    const payment = round2(Math.min(getScheduledAmount(stream, isoDate), balance + interest));
+
+    if (interest > 0) {
+      transactions.push({
+        streamId: loan.id,
+        name: `${loan.name} interest`,
+        amount: -interest,
+        account: loan.id,
+        kind: 'interest',
+      });
+    }
+    transactions.push(
+      {
+        streamId: stream.id,
+        name: stream.name,
+        amount: -payment,
+        account: resolveAccountId(accounts, stream.account, 'checking'),
+      },
+      {
+        streamId: stream.id,
+        name: stream.name,
+        amount: payment,
+        account: loan.id,
+      }
+    );
+  }
+
+  return transactions;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Format a Date as YYYY-MM-DD. */
+function toISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Monte Carlo forecasting: how the forecast spreads out when stream
+ * amounts aren't exact.
+ *
+ * Runs the same scenario many times, each with its own seed, so every
+ * stream with an `amountRange` draws different amounts in each run. The
+ * spread of checking balances across runs gives the percentile bands;
+ * the share of runs that dip below the buffer (or zero) gives the odds.
+ *
+ * Seeded end to end: the same scenario and seed always give the same result.
+ */
+
+import { forecast } from './forecast';
+import type { ScenarioConfig } from './types';
+
+export interface MonteCarloOptions {
+  runs?: number; // Defaults to 200
+  seed?: number; // Seed of the first run; run i uses seed + i. Defaults to 1.
+}
+
+/** Checking balance percentiles across all runs for one day. */
+export interface PercentileBand {
+  date: string; // ISO date
+  p10: number; // 1 in 10 runs ends the day at or below this
+  p50: number; // The median run
+  p90: number; // 1 in 10 runs ends the day above this
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  bands: PercentileBand[]; // One per forecast day
+  probBelowBuffer: number; // Share of runs (0-1) where checking dips below safetyBuffer at some point
+  probBelowZero: number; // Share of runs (0-1) where checking goes negative at some point
+}
+
+const DEFAULT_RUNS = 200;
+
+/**
+ * Run `runs` seeded forecasts of a scenario and summarize the spread.
+ *
+ * Streams without an `amountRange` post the same amount in every run, so a
+ * scenario with no ranges collapses to a band of zero width around the
+ * regular forecast.
+ */
+export function runMonteCarlo(
+  config: ScenarioConfig,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const runs = Math.max(1, Math.floor(options.runs ?? DEFAULT_RUNS));
+  const firstSeed = options.seed ?? 1;
+
+  // checkingByDay[day][run]
+  let dates: string[] = [];
+  const checkingByDay: number[][] = [];
+  let runsBelowBuffer = 0;
+  let runsBelowZero = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const result = forecast(config, { seed: firstSeed + run });
+    if (run === 0) dates = result.daily.map((day) => day.date);
+    result.daily.forEach((day, i) => {
+      (checkingByDay[i] ??= []).push(day.checking);
+    });
+    if (result.metrics.daysCheckingBelowBuffer > 0) runsBelowBuffer++;
+    if (result.metrics.daysCheckingBelowZero > 0) runsBelowZero++;
+  }
+
+  const bands = checkingByDay.map((values, i) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      date: dates[i],
+      p10: percentile(sorted, 0.1),
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+    };
+  });
+
+  return {
+    runs,
+    bands,
+    probBelowBuffer: runsBelowBuffer / runs,
+    probBelowZero: runsBelowZero / runs,
+  };
+}
+
+/** Linear-interpolated percentile of an ascending array (p in 0-1). */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  return round2(value);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
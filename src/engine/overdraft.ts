@@ -0,0 +1,99 @@
+/**
+ * Overdrafts on checking accounts with an overdraft policy.
+ *
+ * At the end of each day (after sweep rules have had their chance), a
+ * checking account below $0:
+ * 1. Pulls the shortfall from its protection account, as far as that
+ *    account's balance goes, and pays the protection transfer fee
+ * 2. If it's still below $0, pays the overdraft fee — once for the day,
+ *    or once for each of the day's payments that left it overdrawn —
+ *    up to the daily cap
+ *
+ * A day that starts overdrawn with no new payments costs nothing in
+ * per-transaction mode; banks charge per item, not per day.
+ */
+
+import type { Account, Transaction } from './types';
+import { resolveAccount, isDebtAccount } from './accounts';
+
+/**
+ * Work out the day's overdraft protection transfers and fees.
+ * `transactions` are the day's transactions already applied to `balances`.
+ * Returns the new transactions; the caller applies them to the ledger.
+ */
+export function processOverdrafts(
+  accounts: Account[],
+  balances: Record<string, number>,
+  transactions: Transaction[]
+): Transaction[] {
+  const result: Transaction[] = [];
+  const working = { ...balances };
+
+  for (const account of accounts) {
+    const policy = account.overdraft;
+    if (account.accountType !== 'checking' || !policy) continue;
+    if (round2(working[account.id]) >= 0) continue;
+
+    const protection = resolveAccount(accounts, policy.protectionAccount);
+    if (protection && protection.id !== account.id && !isDebtAccount(protection.accountType)) {
+      const amount = round2(Math.min(-working[account.id], Math.max(working[protection.id], 0)));
+      if (amount > 0) {
+        const name = `${account.name} overdraft protection`;
+        result.push(
+          { streamId: account.id, name, amount: -amount, account: protection.id, kind: 'overdraft-protection' },
+          { streamId: account.id, name, amount, account: account.id, kind: 'overdraft-protection' }
+        );
+        working[protection.id] -= amount;
+        working[account.id] += amount;
+
+        const protectionFee = policy.protectionFee ?? 0;
+        if (protectionFee > 0) {
+          result.push({
+            streamId: account.id,
+            name: `${account.name} overdraft transfer fee`,
+            amount: -protectionFee,
+            account: account.id,
+            kind: 'overdraft-fee',
+          });
+        }
+      }
+    }
+
+    // Protection fees don't trigger overdraft fees of their own
+    if (round2(working[account.id]) >= 0 || policy.fee <= 0) continue;
+
+    const count = policy.feeMode === 'per-transaction'
+      ? countOverdrawingPayments(account.id, balances[account.id], transactions)
+      : 1;
+    const fees = round2(Math.min(count * policy.fee, policy.dailyFeeCap ?? Infinity));
+    if (fees <= 0) continue;
+
+    result.push({
+      streamId: account.id,
+      name: count > 1 ? `${account.name} overdraft fees (${count})` : `${account.name} overdraft fee`,
+      amount: -fees,
+      account: account.id,
+      kind: 'overdraft-fee',
+    });
+  }
+
+  return result;
+}
+
+/** Replay the day's transactions on an account and count the payments that left it below $0. */
+function countOverdrawingPayments(accountId: string, endBalance: number, transactions: Transaction[]): number {
+  const own = transactions.filter((tx) => tx.account === accountId);
+  let running = endBalance - own.reduce((sum, tx) => sum + tx.amount, 0);
+  let count = 0;
+
+  for (const tx of own) {
+    running += tx.amount;
+    if (tx.amount < 0 && round2(running) < 0) count++;
+  }
+
+  return count;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,62 @@
+/**
+ * Gross-to-net paycheck math.
+ *
+ * An income stream with a `paycheck` is entered at gross pay; what lands in
+ * the account is the net after deductions, worked out in payroll order:
+ * 1. Pre-tax deductions (401k, health premiums) come off gross
+ * 2. Withholding (taxes) is taken from what's left — the taxable pay
+ * 3. Post-tax deductions (Roth 401k, garnishments) come off last
+ *
+ * Percentage lines are a percent of gross, except withholding, which is a
+ * percent of taxable pay. Because the math starts from gross, a raise moves
+ * taxes and percentage deductions along with it.
+ */
+
+import type { Paycheck, PaycheckLine } from './types';
+
+export type PaycheckSection = 'pre-tax' | 'withholding' | 'post-tax';
+
+/** One deduction line, in dollars, for a single paycheck. */
+export interface PaycheckDeduction {
+  name: string;
+  section: PaycheckSection;
+  amount: number;
+}
+
+/** A single paycheck from gross to net. */
+export interface PaycheckBreakdown {
+  gross: number;
+  taxable: number; // Gross minus pre-tax deductions
+  deductions: PaycheckDeduction[];
+  net: number; // The deposit. Never below zero.
+}
+
+/** Work out one paycheck's deductions and net pay from its gross. */
+export function computePaycheck(gross: number, paycheck: Paycheck): PaycheckBreakdown {
+  const deductions: PaycheckDeduction[] = [];
+  const take = (section: PaycheckSection, lines: PaycheckLine[] | undefined, base: number) => {
+    let total = 0;
+    for (const line of lines ?? []) {
+      const amount = round2(line.isPercent ? (base * line.amount) / 100 : line.amount);
+      deductions.push({ name: line.name, section, amount });
+      total += amount;
+    }
+    return total;
+  };
+
+  const preTax = take('pre-tax', paycheck.preTax, gross);
+  const taxable = round2(Math.max(gross - preTax, 0));
+  const withholding = take('withholding', paycheck.withholdings, taxable);
+  const postTax = take('post-tax', paycheck.postTax, gross);
+
+  return {
+    gross,
+    taxable,
+    deductions,
+    net: round2(Math.max(gross - preTax - withholding - postTax, 0)),
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
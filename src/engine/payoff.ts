@@ -0,0 +1,279 @@
+/**
+ * Debt payoff planner: avalanche, snowball, or your own order.
+ *
+ * Takes every credit card and loan with a balance and a fixed monthly
+ * budget: all the minimum payments plus an extra amount. Each month every
+ * debt gets its minimum, and whatever is left goes to the first debt in
+ * the strategy's order. When a debt is paid off, its minimum rolls into
+ * the budget for the next one — the "snowball" — so the monthly total
+ * never changes until everything is paid.
+ *
+ * - avalanche: highest interest rate first (least interest overall)
+ * - snowball: smallest balance first (quickest wins)
+ * - custom: the order given, then anything left out by avalanche
+ *
+ * The plan works month by month with interest at APR / 12, so it's an
+ * estimate; payoffStreams turns it into transfer streams so the daily
+ * forecast shows the real thing.
+ */
+
+import { addMonths, getDaysInMonth, parseISO, startOfMonth } from 'date-fns';
+import type { Account, CashStream, Frequency, ScenarioConfig } from './types';
+import { getLedgerAccounts, isDebtAccount, resolveAccount, resolveAccountId } from './accounts';
+import { getScheduledAmount } from './amounts';
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export interface PayoffOptions {
+  extraPayment: number; // Monthly budget on top of the minimum payments
+  strategy: PayoffStrategy;
+  customOrder?: string[]; // For 'custom': Account.ids, first paid first
+}
+
+/** One month of the plan. Records are keyed by Account.id. */
+export interface PayoffMonth {
+  month: string; // ISO date of the 1st of the month
+  payments: Record<string, number>;
+  interest: Record<string, number>;
+  balances: Record<string, number>; // Owed at the end of the month
+}
+
+export interface PayoffPlan {
+  order: string[]; // Account.ids in the order extra money goes to them
+  monthlyBudget: number; // Minimums plus the extra payment
+  months: PayoffMonth[];
+  payoffDates: Record<string, string>; // Account.id → ISO month it's paid off
+  debtFreeDate: string | null; // Month the last debt is paid off; null if the budget never gets there
+  totalInterest: number;
+}
+
+// Give up on plans that don't finish within 50 years
+const MAX_MONTHS = 600;
+
+interface DebtState {
+  account: Account;
+  balance: number;
+  minimum: number;
+}
+
+/**
+ * Plan paying off a scenario's debts.
+ *
+ * Starts from the accounts' current balances in the first full month of
+ * the forecast. A debt's minimum is its minimumPayment or what the
+ * scenario's streams already pay it (see existingPaymentStreams) on the
+ * forecast start date, whichever is more.
+ */
+export function planDebtPayoff(config: ScenarioConfig, options: PayoffOptions): PayoffPlan {
+  const accounts = getLedgerAccounts(config);
+  const debts: DebtState[] = accounts
+    .filter((a) => isDebtAccount(a.accountType) && a.balance > 0)
+    .map((account) => ({ account, balance: account.balance, minimum: minimumPaymentFor(account, config, accounts) }));
+
+  const ordered = orderDebts(debts, options);
+  const monthlyBudget = round2(debts.reduce((sum, d) => sum + d.minimum, 0) + Math.max(options.extraPayment, 0));
+  const firstMonth = getFirstPlanMonth(config.startDate);
+
+  const months: PayoffMonth[] = [];
+  const payoffDates: Record<string, string> = {};
+  let totalInterest = 0;
+
+  for (let i = 0; i < MAX_MONTHS && debts.some((d) => d.balance > 0); i++) {
+    const month = toISODate(addMonths(firstMonth, i));
+    const payments: Record<string, number> = {};
+    const interest: Record<string, number> = {};
+    let remaining = monthlyBudget;
+
+    for (const debt of debts) {
+      const charge = round2(debt.balance * ((debt.account.interestRate ?? 0) / 100 / 12));
+      interest[debt.account.id] = charge;
+      debt.balance = round2(debt.balance + charge);
+      totalInterest += charge;
+    }
+
+    const pay = (debt: DebtState, amount: number) => {
+      const payment = round2(Math.min(amount, debt.balance, remaining));
+      if (payment <= 0) return;
+      debt.balance = round2(debt.balance - payment);
+      payments[debt.account.id] = round2((payments[debt.account.id] ?? 0) + payment);
+      remaining = round2(remaining - payment);
+    };
+    for (const debt of debts) pay(debt, debt.minimum);
+    for (const debt of ordered) pay(debt, remaining);
+
+    const balances: Record<string, number> = {};
+    for (const debt of debts) {
+      balances[debt.account.id] = debt.balance;
+      if (debt.balance <= 0 && !payoffDates[debt.account.id]) payoffDates[debt.account.id] = month;
+    }
+    months.push({ month, payments, interest, balances });
+  }
+
+  const paidOff = debts.every((d) => d.balance <= 0);
+  return {
+    order: ordered.map((d) => d.account.id),
+    monthlyBudget,
+    months,
+    payoffDates,
+    debtFreeDate: paidOff ? (months[months.length - 1]?.month ?? toISODate(firstMonth)) : null,
+    totalInterest: round2(totalInterest),
+  };
+}
+
+/**
+ * Turn a plan into monthly transfer streams from primary checking, one per
+ * debt, ready to add to a decision.
+ *
+ * Cards are paid on their due day, which covers the minimum the forecast
+ * would otherwise take automatically. A debt the scenario's streams
+ * already pay (a loan's linked stream, a transfer into a card) keeps
+ * those payments, so its new stream only carries the extra on top.
+ * Month-to-month changes in a payment become step changes
+ * (`amountChanges`) on its stream. The forecast's daily interest doesn't
+ * quite match the plan's APR / 12, so each stream pays at most what's
+ * still owed (`payUpToBalance`) rather than overshooting on the last one.
+ */
+export function payoffStreams(
+  plan: PayoffPlan,
+  config: ScenarioConfig,
+  createId: () => string
+): CashStream[] {
+  const accounts = getLedgerAccounts(config);
+  const checkingId = resolveAccountId(accounts, 'checking', 'checking');
+  const streams: CashStream[] = [];
+
+  for (const accountId of plan.order) {
+    const account = accounts.find((a) => a.id === accountId);
+    if (!account) continue;
+    const linked = linkedPaymentStream(account, config);
+    const existing = existingPaymentStreams(account, config, accounts);
+    const payDay = account.accountType === 'credit-card'
+      ? account.dueDayOfMonth ?? 1
+      : linked?.dayOfMonth ?? 1;
+
+    const payments = plan.months
+      .map((m) => {
+        const date = paymentDate(m.month, payDay);
+        return { date, amount: round2((m.payments[accountId] ?? 0) - existingMonthlyPayment(existing, date)) };
+      })
+      .filter((p) => p.amount > 0);
+    if (payments.length === 0) continue;
+
+    const amountChanges = payments
+      .filter((p, i) => i > 0 && p.amount !== payments[i - 1].amount)
+      .map((p) => ({ date: p.date, amount: p.amount }));
+
+    streams.push({
+      id: createId(),
+      name: existing.length > 0 ? `${account.name} extra payment` : `${account.name} payment`,
+      amount: payments[0].amount,
+      type: 'transfer',
+      frequency: 'monthly',
+      dayOfMonth: payDay,
+      account: checkingId,
+      targetAccount: account.id,
+      payUpToBalance: true,
+      startDate: payments[0].date,
+      endDate: payments[payments.length - 1].date,
+      ...(amountChanges.length > 0 && { amountChanges }),
+    });
+  }
+
+  return streams;
+}
+
+/** The stream that pays a loan, if it's linked to one. */
+function linkedPaymentStream(account: Account, config: ScenarioConfig): CashStream | undefined {
+  if (account.accountType !== 'loan' || !account.paymentStreamId) return undefined;
+  return config.streams.find((s) => s.id === account.paymentStreamId);
+}
+
+/**
+ * Enabled streams that already pay a debt: a loan's linked payment stream
+ * and any transfer stream into the account, with amount overrides applied.
+ */
+function existingPaymentStreams(account: Account, config: ScenarioConfig, accounts: Account[]): CashStream[] {
+  const disabled = new Set(config.disabledStreamIds ?? []);
+  const overrides = config.streamOverrides ?? {};
+  return config.streams
+    .filter((s) => !disabled.has(s.id) && !s.percentOf)
+    .filter((s) =>
+      (account.accountType === 'loan' && s.id === account.paymentStreamId) ||
+      (s.type === 'transfer' && resolveAccount(accounts, s.targetAccount)?.id === account.id)
+    )
+    .map((s) => (overrides[s.id] ? { ...s, ...overrides[s.id] } : s));
+}
+
+// Average payments a month at each frequency. One-time payments don't recur.
+const PAYMENTS_PER_MONTH: Record<Exclude<Frequency, 'every-n-months'>, number> = {
+  weekly: 52 / 12,
+  biweekly: 26 / 12,
+  semimonthly: 2,
+  monthly: 1,
+  quarterly: 1 / 3,
+  yearly: 1 / 12,
+  'one-time': 0,
+};
+
+/** What a debt's existing streams pay it in an average month, as of an ISO date. */
+function existingMonthlyPayment(streams: CashStream[], isoDate: string): number {
+  let total = 0;
+  for (const stream of streams) {
+    if (stream.startDate > isoDate || (stream.endDate && stream.endDate < isoDate)) continue;
+    const perMonth = stream.frequency === 'every-n-months'
+      ? 1 / Math.max(1, stream.intervalMonths ?? 1)
+      : PAYMENTS_PER_MONTH[stream.frequency];
+    total += getScheduledAmount(stream, isoDate) * perMonth;
+  }
+  return round2(total);
+}
+
+function minimumPaymentFor(account: Account, config: ScenarioConfig, accounts: Account[]): number {
+  const existing = existingMonthlyPayment(existingPaymentStreams(account, config, accounts), config.startDate);
+  return Math.max(account.minimumPayment ?? 0, existing);
+}
+
+/** Debts in the order extra money goes to them. */
+function orderDebts(debts: DebtState[], options: PayoffOptions): DebtState[] {
+  const byAvalanche = (a: DebtState, b: DebtState) =>
+    (b.account.interestRate ?? 0) - (a.account.interestRate ?? 0) || a.balance - b.balance;
+
+  if (options.strategy === 'snowball') {
+    return [...debts].sort((a, b) => a.balance - b.balance || byAvalanche(a, b));
+  }
+  if (options.strategy === 'custom') {
+    const custom = options.customOrder ?? [];
+    const listed = custom
+      .map((id) => debts.find((d) => d.account.id === id))
+      .filter((d): d is DebtState => d !== undefined);
+    const rest = debts.filter((d) => !custom.includes(d.account.id)).sort(byAvalanche);
+    return [...listed, ...rest];
+  }
+  return [...debts].sort(byAvalanche);
+}
+
+/** The plan starts on the forecast's first day if that's the 1st, else the next month. */
+function getFirstPlanMonth(startDate: string): Date {
+  const start = parseISO(startDate);
+  const monthStart = startOfMonth(start);
+  return monthStart.getTime() === start.getTime() ? monthStart : addMonths(monthStart, 1);
+}
+
+/** The pay day in a plan month, clamped to a short month's last day. */
+function paymentDate(monthIso: string, payDay: number): string {
+  const month = parseISO(monthIso);
+  const day = Math.min(payDay, getDaysInMonth(month));
+  return toISODate(new Date(month.getFullYear(), month.getMonth(), day));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Format a Date as YYYY-MM-DD. */
+function toISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,47 @@
+/**
+ * Percentage streams: streams whose amount is a share of another stream.
+ *
+ * "10% of every paycheck to savings" is a transfer with `percentOf` set to
+ * the paycheck's id and `percentage` 10. It fires whenever the paycheck
+ * fires, for 10% of that occurrence — so the paycheck's raises, overrides
+ * and decision changes carry through without touching the transfer.
+ *
+ * The percentage stream's own frequency and amount are ignored; its start
+ * and end dates still limit when it runs.
+ */
+
+import type { CashStream } from './types';
+
+/**
+ * Follow a percentage stream to the stream whose schedule it copies.
+ *
+ * Chains (10% of a stream that is itself 50% of another) resolve to the
+ * stream at the end of the chain, with the percentages multiplied.
+ * Returns undefined if a source is missing (deleted, disabled, removed by
+ * a decision) or the chain loops back on itself.
+ */
+export function resolvePercentSource(
+  stream: CashStream,
+  streams: CashStream[]
+): { source: CashStream; fraction: number } | undefined {
+  let current = stream;
+  let fraction = 1;
+  const seen = new Set<string>();
+
+  while (current.percentOf) {
+    if (seen.has(current.id)) return undefined;
+    seen.add(current.id);
+    fraction *= (current.percentage ?? 0) / 100;
+    const next = streams.find((s) => s.id === current.percentOf);
+    if (!next) return undefined;
+    current = next;
+  }
+
+  return { source: current, fraction };
+}
+
+/** Whether a date (ISO) is within the stream's own start and end dates. */
+export function isWithinStreamDates(stream: CashStream, isoDate: string): boolean {
+  if (isoDate < stream.startDate) return false;
+  return !stream.endDate || isoDate <= stream.endDate;
+}
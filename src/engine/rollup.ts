@@ -0,0 +1,128 @@
+/**
+ * Monthly and weekly rollups of a forecast's checking balance.
+ *
+ * Each period lists where checking started and ended and what moved it,
+ * so that opening + income − fixed − variable + transfers = closing.
+ * Only money that lands in or leaves a checking account counts:
+ * - income: income streams (and anything else paid in, like a refund)
+ * - fixed / variable: expense streams by category; fees and other
+ *   charges count as fixed
+ * - transfers: transfer streams plus card minimum payments, sweeps and
+ *   overdraft protection, net (positive = more came in than went out)
+ *
+ * Periods are clipped to the forecast's range, so the first and last
+ * can be partial. Weeks start on Sunday.
+ */
+
+import { parseISO, startOfMonth, startOfWeek } from 'date-fns';
+import type { CashStream, ForecastResult, ScenarioConfig, Transaction } from './types';
+import { getLedgerAccounts } from './accounts';
+
+export type RollupPeriod = 'month' | 'week';
+
+/** One period of a rollup. Balances are checking, totalled across accounts. */
+export interface MonthlySummary {
+  periodStart: string; // ISO date: first forecast day in the period
+  periodEnd: string; // ISO date: last forecast day in the period
+  openingBalance: number; // Checking before the period's first day
+  income: number;
+  fixed: number; // Positive: money out
+  variable: number; // Positive: money out
+  transfers: number; // Net in (+) or out (−)
+  closingBalance: number;
+  minBalance: number; // Lowest end-of-day checking in the period
+  minBalanceDate: string;
+}
+
+/** Weekly rollups have the same shape as monthly ones. */
+export type WeeklySummary = MonthlySummary;
+
+// Engine-generated moves between accounts
+const TRANSFER_KINDS = new Set<Transaction['kind']>(['minimum-payment', 'sweep', 'overdraft-protection']);
+
+/**
+ * Roll a forecast up by month or week.
+ * `config` is the scenario the forecast ran on (with any decision applied),
+ * for its opening checking balance and to sort stream transactions.
+ */
+export function summarizeForecast(
+  config: ScenarioConfig,
+  result: ForecastResult,
+  period: RollupPeriod = 'month'
+): MonthlySummary[] {
+  const checkingAccounts = getLedgerAccounts(config).filter((a) => a.accountType === 'checking');
+  const checkingIds = new Set(checkingAccounts.map((a) => a.id));
+  const streamsById = new Map(config.streams.map((s) => [s.id, s]));
+  const periodKey = (iso: string) =>
+    toISODate(period === 'month' ? startOfMonth(parseISO(iso)) : startOfWeek(parseISO(iso)));
+
+  const summaries: MonthlySummary[] = [];
+  let current: MonthlySummary | null = null;
+  let currentKey = '';
+  let previousClose = round2(checkingAccounts.reduce((sum, a) => sum + a.balance, 0));
+
+  for (const day of result.daily) {
+    const key = periodKey(day.date);
+    if (!current || key !== currentKey) {
+      current = {
+        periodStart: day.date,
+        periodEnd: day.date,
+        openingBalance: previousClose,
+        income: 0,
+        fixed: 0,
+        variable: 0,
+        transfers: 0,
+        closingBalance: previousClose,
+        minBalance: day.checking,
+        minBalanceDate: day.date,
+      };
+      currentKey = key;
+      summaries.push(current);
+    }
+
+    for (const tx of day.transactions) {
+      if (checkingIds.has(tx.account)) addTransaction(current, tx, streamsById.get(tx.streamId));
+    }
+
+    current.periodEnd = day.date;
+    current.closingBalance = day.checking;
+    if (day.checking < current.minBalance) {
+      current.minBalance = day.checking;
+      current.minBalanceDate = day.date;
+    }
+    previousClose = day.checking;
+  }
+
+  return summaries.map((s) => ({
+    ...s,
+    income: round2(s.income),
+    fixed: round2(s.fixed),
+    variable: round2(s.variable),
+    transfers: round2(s.transfers),
+  }));
+}
+
+/** Sort one checking transaction into its column. */
+function addTransaction(summary: MonthlySummary, tx: Transaction, stream: CashStream | undefined): void {
+  if (tx.kind ? TRANSFER_KINDS.has(tx.kind) : stream?.type === 'transfer') {
+    summary.transfers += tx.amount;
+  } else if (tx.amount >= 0) {
+    summary.income += tx.amount;
+  } else if (!tx.kind && stream?.type === 'expense' && stream.category === 'variable') {
+    summary.variable -= tx.amount;
+  } else {
+    summary.fixed -= tx.amount;
+  }
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Format a Date as YYYY-MM-DD. */
+function toISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
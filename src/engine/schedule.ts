@@ -6,8 +6,24 @@
  * "Does this stream produce a transaction on this date?"
  */
 
-import { differenceInCalendarDays, parseISO, getDate } from 'date-fns';
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  parseISO,
+  getDate,
+  getDay,
+  getDaysInMonth,
+  isLastDayOfMonth,
+  isSameMonth,
+} from 'date-fns';
 import type { CashStream } from './types';
+import { isBusinessDay, type HolidayCalendar } from './holidays';
+
+const NO_HOLIDAYS: HolidayCalendar = new Set();
+
+// Semimonthly day value meaning "the last day of the month"
+export const LAST_DAY_OF_MONTH = -1;
 
 /**
  * Check if a stream fires on a given date.
@@ -15,21 +31,47 @@ import type { CashStream } from './types';
  * Rules:
  * - The date must be >= stream.startDate
  * - The date must be <= stream.endDate (if endDate exists)
+ * - The date must not fall in one of the stream's pauses
  * - The date must match the stream's recurrence pattern
+ *
+ * With a businessDayShift, an occurrence that lands on a weekend or holiday
+ * moves to the previous or next business day instead. The start/end bounds
+ * and pauses apply to the nominal date, before shifting.
  */
-export function doesStreamFireOnDate(stream: CashStream, date: Date): boolean {
+export function doesStreamFireOnDate(
+  stream: CashStream,
+  date: Date,
+  holidays: HolidayCalendar = NO_HOLIDAYS
+): boolean {
+  const shift = stream.businessDayShift ?? 'none';
+  if (shift === 'none') return firesOnNominalDate(stream, date, holidays);
+  if (!isBusinessDay(date, holidays)) return false;
+  if (firesOnNominalDate(stream, date, holidays)) return true;
+
+  // Occurrences on the run of closed days right after (for 'previous') or
+  // right before (for 'next') this business day move onto it
+  const step = shift === 'previous' ? 1 : -1;
+  for (let d = addDays(date, step); !isBusinessDay(d, holidays); d = addDays(d, step)) {
+    if (firesOnNominalDate(stream, d, holidays)) return true;
+  }
+  return false;
+}
+
+/** Whether the stream's recurrence pattern lands on this date, before any shifting. */
+function firesOnNominalDate(stream: CashStream, date: Date, holidays: HolidayCalendar): boolean {
   const dateStr = toISODate(date);
 
   // Check date bounds
   if (dateStr < stream.startDate) return false;
   if (stream.endDate && dateStr > stream.endDate) return false;
+  if (stream.pauses?.some((p) => dateStr >= p.startDate && dateStr <= p.endDate)) return false;
 
   switch (stream.frequency) {
     case 'one-time':
       return dateStr === stream.startDate;
 
     case 'monthly':
-      return matchesMonthlySchedule(date, stream.dayOfMonth ?? 1);
+      return matchesMonthDayRule(date, stream, stream.dayOfMonth ?? 1, holidays);
 
     case 'biweekly':
       return matchesBiweeklySchedule(date, stream.anchorDate ?? stream.startDate);
@@ -38,7 +80,16 @@ export function doesStreamFireOnDate(stream: CashStream, date: Date): boolean {
       return matchesWeeklySchedule(date, stream.anchorDate ?? stream.startDate);
 
     case 'semimonthly':
-      return matchesSemimonthlySchedule(date);
+      return matchesSemimonthlySchedule(date, getSemimonthlyDays(stream));
+
+    case 'quarterly':
+      return matchesMonthIntervalSchedule(date, stream, 3, holidays);
+
+    case 'yearly':
+      return matchesMonthIntervalSchedule(date, stream, 12, holidays);
+
+    case 'every-n-months':
+      return matchesMonthIntervalSchedule(date, stream, stream.intervalMonths ?? 1, holidays);
 
     default:
       return false;
@@ -49,11 +100,10 @@ export function doesStreamFireOnDate(stream: CashStream, date: Date): boolean {
  * Monthly: fires on a specific day of the month.
  *
  * If dayOfMonth is 29-31 and the month doesn't have that many days,
- * we fire on the last day of the month. But we cap at 28 in the UI
- * to keep things simple for v0.
+ * we fire on the last day of the month (the 31st → Feb 28, Apr 30).
  */
 function matchesMonthlySchedule(date: Date, dayOfMonth: number): boolean {
-  return getDate(date) === dayOfMonth;
+  return getDate(date) === Math.min(dayOfMonth, getDaysInMonth(date));
 }
 
 /**
@@ -82,14 +132,103 @@ function matchesWeeklySchedule(date: Date, anchorDate: string): boolean {
 }
 
 /**
- * Semimonthly: fires on the 1st and 15th of each month.
+ * Semimonthly: fires on two fixed days each month — the 1st and 15th
+ * unless the stream picks its own, e.g. the 15th and the last day.
  *
  * This is for people paid on fixed dates (not biweekly).
  * Unlike biweekly, this always produces exactly 2 payments per month.
  */
-function matchesSemimonthlySchedule(date: Date): boolean {
+function matchesSemimonthlySchedule(date: Date, days: [number, number]): boolean {
+  return days.some((day) =>
+    day === LAST_DAY_OF_MONTH ? isLastDayOfMonth(date) : matchesMonthlySchedule(date, day)
+  );
+}
+
+/** The two pay days of a semimonthly stream, defaulting to the 1st and 15th. */
+export function getSemimonthlyDays(stream: CashStream): [number, number] {
+  return stream.semimonthlyDays ?? [1, 15];
+}
+
+/** Describe a semimonthly stream's pay days, e.g. "1st & 15th" or "15th & last day". */
+export function formatSemimonthlyDays(stream: CashStream): string {
+  return getSemimonthlyDays(stream)
+    .map((day) => (day === LAST_DAY_OF_MONTH ? 'last day' : ordinal(day)))
+    .join(' & ');
+}
+
+function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  const suffix = ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * Every N months: fires on a day of the month, in every Nth month counted
+ * from the anchor date (or the start date if there's no anchor).
+ *
+ * Quarterly is N = 3 and yearly is N = 12. The day defaults to the anchor's
+ * day, so a yearly stream anchored on 2026-03-15 fires every March 15th.
+ */
+function matchesMonthIntervalSchedule(
+  date: Date,
+  stream: CashStream,
+  intervalMonths: number,
+  holidays: HolidayCalendar
+): boolean {
+  const anchor = parseISO(stream.anchorDate ?? stream.startDate);
+  const interval = Math.max(1, Math.round(intervalMonths));
+  const monthsDiff = differenceInCalendarMonths(date, anchor);
+  if (monthsDiff < 0 || monthsDiff % interval !== 0) return false;
+  return matchesMonthDayRule(date, stream, stream.dayOfMonth ?? getDate(anchor), holidays);
+}
+
+/**
+ * Pick the day within a month using the stream's monthDayRule.
+ * `defaultDay` is used for the plain 'day-of-month' rule when the stream
+ * doesn't set dayOfMonth.
+ */
+function matchesMonthDayRule(
+  date: Date,
+  stream: CashStream,
+  defaultDay: number,
+  holidays: HolidayCalendar
+): boolean {
+  switch (stream.monthDayRule) {
+    case 'nth-weekday':
+      return matchesNthWeekday(date, stream.weekdayOrdinal ?? 1, stream.weekday ?? 1);
+    case 'last-day':
+      return isLastDayOfMonth(date);
+    case 'last-business-day':
+      return matchesLastBusinessDay(date, holidays);
+    default:
+      return matchesMonthlySchedule(date, defaultDay);
+  }
+}
+
+/**
+ * Nth weekday: "second Tuesday", "last Friday".
+ *
+ * The first Tuesday falls on day 1-7, the second on 8-14, and so on.
+ * An ordinal of -1 means the last one: no later same weekday in the month.
+ */
+function matchesNthWeekday(date: Date, ordinal: number, weekday: number): boolean {
+  if (getDay(date) !== weekday) return false;
   const day = getDate(date);
-  return day === 1 || day === 15;
+  if (ordinal === -1) return day + 7 > getDaysInMonth(date);
+  return Math.ceil(day / 7) === ordinal;
+}
+
+/**
+ * Last business day: the last Monday–Friday of the month that isn't a
+ * holiday. If the month ends on a weekend, this is the Friday before.
+ */
+function matchesLastBusinessDay(date: Date, holidays: HolidayCalendar): boolean {
+  if (!isBusinessDay(date, holidays)) return false;
+  for (let d = addDays(date, 1); isSameMonth(d, date); d = addDays(d, 1)) {
+    if (isBusinessDay(d, holidays)) return false;
+  }
+  return true;
 }
 
 /** Format a Date as YYYY-MM-DD string for comparison. */
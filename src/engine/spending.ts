@@ -0,0 +1,105 @@
+/**
+ * Spending breakdown: forecast outflow by the user's own categories and tags.
+ *
+ * Counts every payment an expense stream makes over the forecast, from
+ * whichever account it leaves (checking, a credit card, ...), at the
+ * amount actually paid that day. Transfers, income and engine-generated
+ * charges (interest, fees) aren't spending and are left out.
+ *
+ * A stream has one category but can have several tags, so tag totals
+ * overlap and don't add up to total spending.
+ */
+
+import type { ForecastResult, ScenarioConfig } from './types';
+
+// The category for streams without one
+export const UNCATEGORIZED = 'Uncategorized';
+
+/** One month of spending. `month` is the ISO date of its 1st. */
+export interface SpendingMonth {
+  month: string;
+  byCategory: Record<string, number>;
+}
+
+export interface SpendingBreakdown {
+  total: number;
+  byCategory: Record<string, number>; // Over the whole forecast
+  byTag: Record<string, number>; // Over the whole forecast; a stream counts toward each of its tags
+  months: SpendingMonth[];
+}
+
+/** How a decision changes one category's spending over the forecast. */
+export interface CategoryChange {
+  category: string;
+  baseline: number;
+  decision: number;
+  delta: number; // decision - baseline (positive = spends more)
+}
+
+/**
+ * Sum a forecast's spending by category and tag, overall and per month.
+ * `config` is the scenario the forecast ran on (with any decision applied).
+ */
+export function summarizeSpending(config: ScenarioConfig, result: ForecastResult): SpendingBreakdown {
+  const streamsById = new Map(config.streams.map((s) => [s.id, s]));
+  const byCategory: Record<string, number> = {};
+  const byTag: Record<string, number> = {};
+  const months: SpendingMonth[] = [];
+  let total = 0;
+
+  for (const day of result.daily) {
+    const month = `${day.date.slice(0, 7)}-01`;
+    if (months.length === 0 || months[months.length - 1].month !== month) {
+      months.push({ month, byCategory: {} });
+    }
+    const current = months[months.length - 1];
+
+    for (const tx of day.transactions) {
+      const stream = streamsById.get(tx.streamId);
+      if (tx.kind || tx.amount >= 0 || stream?.type !== 'expense') continue;
+
+      const amount = -tx.amount;
+      const category = stream.budgetCategory || UNCATEGORIZED;
+      total += amount;
+      byCategory[category] = (byCategory[category] ?? 0) + amount;
+      current.byCategory[category] = (current.byCategory[category] ?? 0) + amount;
+      for (const tag of stream.tags ?? []) {
+        byTag[tag] = (byTag[tag] ?? 0) + amount;
+      }
+    }
+  }
+
+  return {
+    total: round2(total),
+    byCategory: roundValues(byCategory),
+    byTag: roundValues(byTag),
+    months: months.map((m) => ({ month: m.month, byCategory: roundValues(m.byCategory) })),
+  };
+}
+
+/**
+ * The categories a decision moves, biggest change first.
+ * Categories it leaves alone are left out.
+ */
+export function compareSpending(baseline: SpendingBreakdown, decision: SpendingBreakdown): CategoryChange[] {
+  const categories = new Set([...Object.keys(baseline.byCategory), ...Object.keys(decision.byCategory)]);
+
+  return [...categories]
+    .map((category) => {
+      const before = baseline.byCategory[category] ?? 0;
+      const after = decision.byCategory[category] ?? 0;
+      return { category, baseline: before, decision: after, delta: round2(after - before) };
+    })
+    .filter((c) => c.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+function roundValues(values: Record<string, number>): Record<string, number> {
+  const rounded: Record<string, number> = {};
+  for (const [key, value] of Object.entries(values)) rounded[key] = round2(value);
+  return rounded;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,109 @@
+/**
+ * Stress tests: apply a shock to a baseline scenario.
+ *
+ * Works like applyDecision — the stress test stores only the shock, and
+ * this produces a complete ScenarioConfig for the forecast engine, so the
+ * result can be charted and compared against the baseline the same way.
+ */
+
+import { addDays, addMonths, parseISO } from 'date-fns';
+import type { ScenarioConfig, StressTestConfig, CashStream } from './types';
+
+/**
+ * Apply a stress test's shocks to a baseline scenario.
+ *
+ * - Paused income: the income stream skips every occurrence from the start
+ *   date for N months, then picks up again on its usual schedule. Streams
+ *   that are a percentage of it (e.g. "save 10% of pay") pause with it.
+ * - Surprise expense: a one-time expense from checking on the date.
+ * - Variable spending: every variable expense costs Y% more, including
+ *   its step changes, amount range and any what-if override.
+ *
+ * Returns a complete ScenarioConfig that can be passed to forecast().
+ */
+export function applyStressTest(
+  baseline: ScenarioConfig,
+  stressTest: StressTestConfig
+): ScenarioConfig {
+  let streams: CashStream[] = baseline.streams.map((s) => ({ ...s }));
+  let streamOverrides = baseline.streamOverrides;
+
+  const pause = stressTest.pauseIncome;
+  if (pause && pause.months > 0) {
+    const endDate = toISODate(addDays(addMonths(parseISO(pause.startDate), pause.months), -1));
+    streams = streams.map((s) =>
+      s.id === pause.streamId
+        ? { ...s, pauses: [...(s.pauses ?? []), { startDate: pause.startDate, endDate }] }
+        : s
+    );
+  }
+
+  const increase = stressTest.variableSpendingIncrease;
+  if (increase) {
+    const factor = 1 + increase / 100;
+    const isVariable = (s: CashStream) => s.type === 'expense' && s.category === 'variable' && !s.percentOf;
+    streams = streams.map((s) => (isVariable(s) ? scaleStream(s, factor) : s));
+
+    const overrides = { ...(streamOverrides ?? {}) };
+    for (const s of streams) {
+      const amount = overrides[s.id]?.amount;
+      if (isVariable(s) && amount !== undefined) {
+        overrides[s.id] = { ...overrides[s.id], amount: round2(amount * factor) };
+      }
+    }
+    streamOverrides = overrides;
+  }
+
+  const surprise = stressTest.surpriseExpense;
+  if (surprise && surprise.amount > 0) {
+    streams.push({
+      id: `${stressTest.id}-surprise`,
+      name: stressTest.name,
+      amount: surprise.amount,
+      type: 'expense',
+      frequency: 'one-time',
+      account: 'checking',
+      startDate: surprise.date,
+    });
+  }
+
+  return {
+    ...baseline,
+    id: stressTest.id,
+    name: stressTest.name,
+    streams,
+    streamOverrides,
+  };
+}
+
+/** A copy of the stream with every dollar amount multiplied by `factor`. */
+function scaleStream(stream: CashStream, factor: number): CashStream {
+  const range = stream.amountRange;
+  return {
+    ...stream,
+    amount: round2(stream.amount * factor),
+    ...(stream.amountChanges && {
+      amountChanges: stream.amountChanges.map((c) => ({ ...c, amount: round2(c.amount * factor) })),
+    }),
+    ...(range && {
+      amountRange: {
+        ...range,
+        ...(range.min !== undefined && { min: round2(range.min * factor) }),
+        ...(range.likely !== undefined && { likely: round2(range.likely * factor) }),
+        ...(range.max !== undefined && { max: round2(range.max * factor) }),
+      },
+    }),
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Format a Date as YYYY-MM-DD. */
+function toISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,56 @@
+/**
+ * Sweep rules: automatic moves between cash accounts at the end of each day.
+ *
+ * Runs after everything else has posted for the day, so a rule sees the
+ * day's ending balances. Rules run in order and each one sees the moves
+ * made by the rules before it. Money is only ever pulled from what a
+ * source account actually holds, so a top-up never overdraws savings.
+ *
+ * Rules only move money between asset accounts; a rule pointing at a
+ * credit card or loan is ignored.
+ */
+
+import { getDaysInMonth } from 'date-fns';
+import type { Account, SweepRule, Transaction } from './types';
+import { resolveAccount, isDebtAccount } from './accounts';
+
+/**
+ * Work out the day's sweeps from its ending balances.
+ * Returns the moves as 'sweep' transactions; the caller applies them to the ledger.
+ */
+export function processSweeps(
+  rules: SweepRule[],
+  accounts: Account[],
+  date: Date,
+  balances: Record<string, number>
+): Transaction[] {
+  const transactions: Transaction[] = [];
+  const working = { ...balances };
+
+  for (const rule of rules) {
+    const watched = resolveAccount(accounts, rule.account);
+    const other = resolveAccount(accounts, rule.otherAccount);
+    if (!watched || !other || watched.id === other.id) continue;
+    if (isDebtAccount(watched.accountType) || isDebtAccount(other.accountType)) continue;
+    if (rule.dayOfMonth !== undefined && date.getDate() !== Math.min(rule.dayOfMonth, getDaysInMonth(date))) continue;
+
+    const [from, to, wanted] = rule.type === 'top-up'
+      ? [other.id, watched.id, rule.threshold - working[watched.id]]
+      : [watched.id, other.id, working[watched.id] - rule.threshold];
+    const amount = round2(Math.min(wanted, rule.maxAmount ?? Infinity, Math.max(working[from], 0)));
+    if (amount <= 0) continue;
+
+    working[from] -= amount;
+    working[to] += amount;
+    transactions.push(
+      { streamId: rule.id, name: rule.name, amount: -amount, account: from, kind: 'sweep' },
+      { streamId: rule.id, name: rule.name, amount, account: to, kind: 'sweep' }
+    );
+  }
+
+  return transactions;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,99 @@
+/**
+ * Start-date search: when is the best time to make a decision?
+ *
+ * Slides a decision's added streams across a window of start dates —
+ * daycare starting in June vs September, the car before or after another
+ * loan pays off — and forecasts each one. Candidates are ranked by the
+ * lowest checking balance, then by days below the buffer.
+ */
+
+import { addDays, addMonths, differenceInCalendarDays, parseISO } from 'date-fns';
+import { applyDecision } from './decision';
+import { forecast } from './forecast';
+import type { ScenarioConfig, DecisionConfig, CashStream, ForecastMetrics } from './types';
+
+export type StartDateStep = 'week' | 'month';
+
+/** One candidate start date and how the decision fares with it. */
+export interface StartDateCandidate {
+  startDate: string; // ISO date the earliest added stream starts on
+  metrics: ForecastMetrics;
+  rank: number; // 1 = best
+}
+
+/**
+ * The decision with its added streams moved so the earliest one starts on
+ * `startDate`. Every date on every added stream moves by the same number
+ * of days, so spacing between them and each stream's length (a 36-month
+ * loan stays 36 months) are kept.
+ */
+export function shiftDecisionStart(decision: DecisionConfig, startDate: string): DecisionConfig {
+  const earliest = getDecisionStart(decision);
+  if (!earliest) return decision;
+  const days = differenceInCalendarDays(parseISO(startDate), parseISO(earliest));
+  if (days === 0) return decision;
+  return { ...decision, addStreams: decision.addStreams.map((s) => shiftStream(s, days)) };
+}
+
+/** The earliest start date among a decision's added streams, if it has any. */
+export function getDecisionStart(decision: DecisionConfig): string | undefined {
+  return decision.addStreams
+    .map((s) => s.startDate)
+    .filter(Boolean)
+    .sort()[0];
+}
+
+/**
+ * Forecast the decision with each start date from `from` to `to`, a week
+ * or a month apart. Returns candidates in date order, each ranked:
+ * higher minChecking first, then fewer days below the buffer, then earlier.
+ */
+export function searchStartDates(
+  baseline: ScenarioConfig,
+  decision: DecisionConfig,
+  from: string,
+  to: string,
+  step: StartDateStep = 'month'
+): StartDateCandidate[] {
+  if (!getDecisionStart(decision)) return [];
+
+  const candidates: Omit<StartDateCandidate, 'rank'>[] = [];
+  const first = parseISO(from);
+  for (let i = 0; ; i++) {
+    const date = step === 'week' ? addDays(first, i * 7) : addMonths(first, i);
+    const startDate = toISODate(date);
+    if (startDate > to) break;
+    const config = applyDecision(baseline, shiftDecisionStart(decision, startDate));
+    candidates.push({ startDate, metrics: forecast(config).metrics });
+  }
+
+  const ranked = [...candidates].sort(
+    (a, b) =>
+      b.metrics.minChecking - a.metrics.minChecking ||
+      a.metrics.daysCheckingBelowBuffer - b.metrics.daysCheckingBelowBuffer ||
+      a.startDate.localeCompare(b.startDate)
+  );
+  return candidates.map((c) => ({ ...c, rank: ranked.indexOf(c) + 1 }));
+}
+
+/** Move every date on a stream by `days`. */
+function shiftStream(stream: CashStream, days: number): CashStream {
+  const shift = (iso: string) => toISODate(addDays(parseISO(iso), days));
+  return {
+    ...stream,
+    startDate: shift(stream.startDate),
+    ...(stream.endDate && { endDate: shift(stream.endDate) }),
+    ...(stream.anchorDate && { anchorDate: shift(stream.anchorDate) }),
+    ...(stream.amountChanges && {
+      amountChanges: stream.amountChanges.map((c) => ({ ...c, date: shift(c.date) })),
+    }),
+  };
+}
+
+/** Format a Date as YYYY-MM-DD. */
+function toISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -11,23 +11,45 @@ export type Frequency =
   | 'biweekly'
   | 'semimonthly'
   | 'monthly'
+  | 'quarterly'
+  | 'yearly'
+  | 'every-n-months'
   | 'one-time';
 
-// Which account a stream affects
-export type AccountType = 'checking' | 'savings';
+// Which account a stream affects: an Account.id. The legacy values
+// 'checking' and 'savings' still resolve to the first account of that type.
+export type AccountRef = string;
 
 // What kind of financial account this is
 export type FinancialAccountType = 'checking' | 'savings' | 'credit-card' | 'loan' | 'investment';
 
+// Which day of the month a monthly-style stream lands on:
+// - 'day-of-month': a fixed day (dayOfMonth)
+// - 'last-day': the last day of the month, whatever its length
+// - 'nth-weekday': e.g. "second Tuesday" or "last Friday" (weekdayOrdinal + weekday)
+// - 'last-business-day': the last Monday–Friday of the month
+export type MonthDayRule = 'day-of-month' | 'last-day' | 'nth-weekday' | 'last-business-day';
+
+// Where an occurrence that lands on a weekend or holiday actually posts
+export type BusinessDayShift = 'none' | 'previous' | 'next';
+
+// How a stream's amount grows over time:
+// - 'yearly-step': one raise a year, on the 1st of escalationMonth
+// - 'monthly-compound': steady growth at the annual rate, compounded monthly
+export type EscalationMode = 'yearly-step' | 'monthly-compound';
+
+// How often growth compounds on a savings or investment account
+export type Compounding = 'daily' | 'monthly';
+
 /**
  * A financial account the user tracks.
  *
  * Examples:
  *  - Checking: "Chase Checking" — $5,000 balance
- *  - Savings: "Emergency Fund" — $15,000 balance
- *  - Credit Card: "Visa" — $3,200 balance, 22.9% APR, $85 min payment
- *  - Loan: "Car Loan" — $18,000 balance, 4.5% APR, $650/mo payment
- *  - Investment: "Brokerage" — $42,000 balance
+ *  - Savings: "Emergency Fund" — $15,000 balance, 4.2% APY compounded daily
+ *  - Credit Card: "Visa" — $3,200 balance, 22.9% APR, $85 min payment due on the 25th
+ *  - Loan: "Car Loan" — $18,000 balance, 4.5% APR, paid by the "Car Payment" stream
+ *  - Investment: "Brokerage" — $42,000 balance, 7% expected annual return
  */
 export interface Account {
   id: string;
@@ -37,6 +59,27 @@ export interface Account {
   interestRate?: number;
   minimumPayment?: number;
   creditLimit?: number;
+  dueDayOfMonth?: number; // Credit cards: day the payment is due (defaults to the 1st)
+  paymentStreamId?: string; // Loans: the stream that pays this loan down
+  growthRate?: number; // Savings: APY %. Investments: expected annual return %
+  compounding?: Compounding; // How growthRate compounds (defaults to monthly)
+  overdraft?: OverdraftPolicy; // Checking: what the bank does below $0
+}
+
+// Overdraft fees are charged once per day overdrawn, or once per payment that overdraws
+export type OverdraftFeeMode = 'per-day' | 'per-transaction';
+
+/**
+ * A checking account's overdraft policy.
+ * Example: $35 per overdrawn payment, at most $105 a day, with savings
+ * covering overdrafts for a $10 transfer fee.
+ */
+export interface OverdraftPolicy {
+  fee: number;
+  feeMode: OverdraftFeeMode;
+  dailyFeeCap?: number; // Most overdraft fees charged in one day. Unset: no cap
+  protectionAccount?: AccountRef; // Linked account that covers overdrafts
+  protectionFee?: number; // Charged for each protection transfer
 }
 
 // Whether money is coming in, going out, or moving between accounts
@@ -53,6 +96,9 @@ export type ExpenseCategory = 'fixed' | 'variable';
  *  - Expense: "Mortgage" — $2,700 monthly from checking on the 16th
  *  - Transfer: "Savings contribution" — $400 biweekly from checking to savings
  *  - One-time expense: "Car repair" — $2,000 on a specific date
+ *  - Yearly expense: "Property tax" — $4,800 every March 15th
+ *  - Monthly income: "Paycheck" — $6,000 on the last business day of each month
+ *  - Transfer: "Save 10%" — 10% of every "Paycheck", checking → savings
  */
 export interface CashStream {
   id: string;
@@ -60,13 +106,111 @@ export interface CashStream {
   amount: number; // Always positive. Direction determined by `type`.
   type: StreamType;
   frequency: Frequency;
-  account: AccountType; // Which account this hits (source for transfers)
-  targetAccount?: AccountType; // For transfers: where money goes
+  account: AccountRef; // Which account this hits (source for transfers)
+  targetAccount?: AccountRef; // For transfers: where money goes
+  payUpToBalance?: boolean; // For transfers into a card or loan: pay at most what's owed that day, then stop
   startDate: string; // ISO date (YYYY-MM-DD) — when this stream begins
   endDate?: string; // Optional — when it stops (e.g., Tesla payoff in Oct 2026)
-  dayOfMonth?: number; // For monthly: which day (1-28). Use 28 for end-of-month.
-  anchorDate?: string; // For biweekly/weekly: a known occurrence date to count from
+  dayOfMonth?: number; // For monthly and every-N-months: which day (1-31). Past a short month's end → its last day.
+  anchorDate?: string; // For biweekly/weekly/every-N-months: a known occurrence date to count from
+  intervalMonths?: number; // For every-n-months: how many months between occurrences
+  semimonthlyDays?: [number, number]; // For semimonthly: the two days (1-31, or -1 for last day). Defaults to [1, 15].
+  monthDayRule?: MonthDayRule; // For monthly and every-N-months. Defaults to 'day-of-month'.
+  weekdayOrdinal?: number; // For 'nth-weekday': 1-4 for first–fourth, -1 for last
+  weekday?: number; // For 'nth-weekday': 0 = Sunday … 6 = Saturday
+  businessDayShift?: BusinessDayShift; // Move weekend/holiday occurrences. Defaults to 'none'.
+  paycheck?: Paycheck; // For income: deductions from gross. With this set, `amount` is gross pay per paycheck.
+  percentOf?: string; // Id of a stream this one is a share of. Fires with it; frequency and amount are ignored.
+  percentage?: number; // For percentOf: percent of each source occurrence (e.g., 10 for 10%); of gross pay for a paycheck
+  amountChanges?: AmountChange[]; // Step changes to the amount, e.g. rent going up in August
+  amountRange?: AmountRange; // How much each occurrence can vary. Only used by Monte Carlo runs.
+  pauses?: StreamPause[]; // Stretches the stream skips (e.g., a stress test's job loss)
+  escalationRate?: number; // Annual increase in percent (e.g., 3 for a 3% raise). Grows from the forecast start.
+  escalationMode?: EscalationMode; // Defaults to 'yearly-step'
+  escalationMonth?: number; // For 'yearly-step': month of the raise, 1-12. Defaults to 1 (January).
   category?: ExpenseCategory; // For expenses: 'fixed' or 'variable'. UI grouping only.
+  budgetCategory?: string; // User-defined spending category, e.g. "Housing". Unset: uncategorized.
+  tags?: string[]; // Free-form labels, e.g. ["Kids", "Auto"]
+}
+
+/**
+ * A dated change to a stream's amount: from `date` on, the stream pays
+ * `amount` instead (until the next change).
+ */
+export interface AmountChange {
+  date: string; // ISO date the new amount takes effect
+  amount: number;
+}
+
+/** A stretch of time a stream doesn't fire, inclusive on both ends. */
+export interface StreamPause {
+  startDate: string; // ISO date
+  endDate: string; // ISO date
+}
+
+/**
+ * How far a stream's amount can swing from one occurrence to the next.
+ *
+ * Either ±`percent` around the scheduled amount (any value in between
+ * equally likely), or a min/likely/max range in dollars (most draws near
+ * `likely`). The range is relative to the stream's `amount`, so raises
+ * and step changes move it along: $500–$700 on a $600 stream becomes
+ * $550–$770 after the amount goes to $660.
+ */
+export interface AmountRange {
+  percent?: number; // e.g., 15 for ±15%
+  min?: number;
+  likely?: number; // Defaults to the stream's amount
+  max?: number;
+}
+
+/** One paycheck deduction: a flat dollar amount, or a percent when isPercent is set. */
+export interface PaycheckLine {
+  name: string; // e.g., "401k", "Federal income tax", "Health premium"
+  amount: number;
+  isPercent?: boolean; // Percent of gross (withholding: percent of taxable pay)
+}
+
+/**
+ * The deductions between gross pay and the deposit on an income stream.
+ * Example: $5,000 gross − 6% 401k − 18% federal tax − $120 health = net deposit.
+ */
+export interface Paycheck {
+  preTax?: PaycheckLine[]; // Taken before taxes: 401k, HSA, health premiums
+  withholdings?: PaycheckLine[]; // Taxes: federal, state, FICA
+  postTax?: PaycheckLine[]; // Taken after taxes: Roth 401k, garnishments
+}
+
+/**
+ * A savings goal: have `targetAmount` across one or more accounts by
+ * `targetDate`. Example: $15,000 emergency fund in savings by next June.
+ */
+export interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate: string; // ISO date
+  accountIds: string[]; // Account.ids whose combined balance counts toward the goal
+}
+
+/**
+ * An automatic move between two cash accounts, checked at the end of each day.
+ * - 'top-up': when `account` is below `threshold`, pull from `otherAccount`
+ *   to bring it back up (e.g. "if checking < $1,000, pull from savings")
+ * - 'sweep-excess': move whatever `account` holds above `threshold` into
+ *   `otherAccount` (e.g. "on the 1st, sweep checking above $5,000 into savings")
+ */
+export type SweepRuleType = 'top-up' | 'sweep-excess';
+
+export interface SweepRule {
+  id: string;
+  name: string;
+  type: SweepRuleType;
+  account: AccountRef; // The account being watched, usually checking
+  otherAccount: AccountRef; // Where money comes from (top-up) or goes (sweep-excess)
+  threshold: number;
+  maxAmount?: number; // Cap on a single move. Unset: no cap
+  dayOfMonth?: number; // Only check on this day (clamped to month end). Unset: every day
 }
 
 /**
@@ -85,6 +229,10 @@ export interface ScenarioConfig {
   accounts?: Account[];
   disabledStreamIds?: string[];
   streamOverrides?: Record<string, { amount?: number }>;
+  customHolidays?: string[]; // ISO dates treated as bank holidays, on top of US federal holidays
+  inflationRate?: number; // Annual % applied to variable expenses without their own escalation
+  goals?: Goal[];
+  sweepRules?: SweepRule[]; // Checked in order after each day's transactions
 }
 
 /**
@@ -115,29 +263,79 @@ export interface StreamModification {
   changes: Partial<Omit<CashStream, 'id'>>; // What to change about it
 }
 
+/**
+ * A stress test: a shock applied to the baseline to see how it holds up.
+ * Like a decision, it's stored as changes, not a copy of the scenario.
+ * Any combination of shocks can be set; each one left unset is skipped.
+ *
+ * Example: "Job loss" pauses Andrew's Pay for 3 months from March 1.
+ */
+export interface StressTestConfig {
+  id: string;
+  name: string;
+  pauseIncome?: {
+    streamId: string; // The income stream that stops
+    startDate: string; // ISO date the first missed payment would have landed on or after
+    months: number; // How long it stops for
+  };
+  surpriseExpense?: {
+    amount: number;
+    date: string; // ISO date it hits checking
+  };
+  variableSpendingIncrease?: number; // Percent more on every variable expense (e.g., 20 for +20%)
+}
+
 /**
  * A snapshot of account balances and transactions for a single day.
  * The forecast produces an array of these — one per day.
+ *
+ * `checking` and `savings` are totals across every account of that type;
+ * `balances` has the individual balance of each account, keyed by Account.id.
+ * Debt accounts (credit cards, loans) report the amount owed as a positive number.
+ * `netWorth` is every asset account (checking, savings, investments) minus
+ * every debt, so growth and loan paydown both show up in it.
  */
 export interface DailySnapshot {
   date: string; // ISO date
   checking: number;
   savings: number;
+  netWorth: number; // Assets minus debts, across every account
+  balances: Record<string, number>;
+  overLimitAccountIds: string[]; // Credit cards over their creditLimit at end of day
   transactions: Transaction[];
 }
 
+/**
+ * Transactions the engine generates on its own, rather than from a stream.
+ * Their `streamId` is the id of the account (or sweep rule) that produced them.
+ */
+export type TransactionKind =
+  | 'interest'
+  | 'minimum-payment'
+  | 'growth'
+  | 'sweep'
+  | 'overdraft-protection'
+  | 'overdraft-fee';
+
 /** A single transaction that occurred on a given day. */
 export interface Transaction {
   streamId: string;
   name: string;
   amount: number; // Positive = money in, negative = money out
-  account: AccountType;
+  account: string; // The resolved Account.id
+  kind?: TransactionKind; // Unset for stream transactions
+}
+
+/** Options for a single forecast run. */
+export interface ForecastOptions {
+  seed?: number; // Draw uncertain amounts (amountRange) from this seed. Unset: every amount is exact.
 }
 
 /** The output of running a forecast on a scenario. */
 export interface ForecastResult {
   daily: DailySnapshot[];
   metrics: ForecastMetrics;
+  goals: GoalProgress[]; // One per ScenarioConfig.goals entry, in the same order
 }
 
 /**
@@ -150,10 +348,39 @@ export interface ForecastMetrics {
   maxChecking: number; // Highest checking balance
   daysCheckingBelowBuffer: number; // Days where checking < safetyBuffer
   daysCheckingBelowZero: number; // Days where checking is negative
+  daysOverCreditLimit: number; // Days where any credit card is over its limit
   endingChecking: number; // Final checking balance
   endingSavings: number; // Final savings balance
-  totalIncome: number; // Sum of all income over the forecast
-  totalExpenses: number; // Sum of all expenses (as positive number)
+  endingNetWorth: number; // Final assets minus debts
+  totalFees: number; // Overdraft and overdraft-protection fees paid
+  totalIncome: number; // Sum of all stream income over the forecast
+  totalExpenses: number; // Sum of all stream expenses plus fees (as positive number)
+}
+
+/**
+ * Where a savings goal ends up in a forecast.
+ * If the target date is past the forecast's end, the last day's balance
+ * stands in for the balance on the target date.
+ */
+export interface GoalProgress {
+  goalId: string;
+  reachedDate: string | null; // First day the pooled balance hits the target; null if it never does
+  balanceAtTargetDate: number;
+  shortfall: number; // Target minus the balance on the target date; 0 if it's met
+  monthlyContributionNeeded: number; // Extra per month from the start to close the shortfall
+}
+
+/**
+ * Runway: how long the money lasts if some streams stop today (by default,
+ * all income). Days count from the forecast start; null means the money
+ * lasts past the horizon.
+ */
+export interface RunwayMetrics {
+  daysToBuffer: number | null; // Days until checking drops below safetyBuffer
+  bufferDate: string | null; // The day it does
+  daysToZero: number | null; // Days until checking + savings drops below zero
+  zeroDate: string | null; // The day it does
+  horizonDays: number; // How far ahead it looked
 }
 
 /**
@@ -167,3 +394,15 @@ export interface ComparisonMetrics {
   bufferDaysDelta: number; // decision.daysBelow - baseline.daysBelow (positive = worse)
   endingBalanceDelta: number; // decision.endingChecking - baseline.endingChecking
 }
+
+/**
+ * How a decision moves one savings goal.
+ * Positive daysDelta means the goal is reached LATER (worse).
+ */
+export interface GoalComparison {
+  goalId: string;
+  baseline: GoalProgress;
+  decision: GoalProgress;
+  daysDelta: number | null; // Days later the goal is reached; null if either never reaches it
+  shortfallDelta: number; // decision.shortfall - baseline.shortfall (positive = worse)
+}
@@ -0,0 +1,74 @@
+/**
+ * Uncertain stream amounts.
+ *
+ * A stream with an `amountRange` posts its exact amount in a normal
+ * forecast. In a seeded run (see montecarlo.ts) each occurrence draws its
+ * own amount from the range instead.
+ *
+ * Draws are keyed on the seed, the stream and the date rather than pulled
+ * from one running generator. That way a draw doesn't depend on the order
+ * streams are checked in, and a percentage stream sees exactly the amount
+ * its source drew.
+ */
+
+import type { CashStream } from './types';
+
+/**
+ * The amount a stream posts on `isoDate` in the run with this seed.
+ *
+ * `amount` is the exact amount for that day (after step changes and
+ * raises); the draw scales it. Never negative.
+ */
+export function drawAmount(
+  stream: CashStream,
+  amount: number,
+  seed: number,
+  isoDate: string
+): number {
+  const range = stream.amountRange;
+  if (!range) return amount;
+
+  const u = seededUnit(`${seed}:${stream.id}:${isoDate}`);
+
+  if (range.percent) {
+    const swing = ((2 * u - 1) * range.percent) / 100;
+    return round2(Math.max(amount * (1 + swing), 0));
+  }
+
+  // min/likely/max are dollars against the stream's base amount
+  if (stream.amount <= 0) return amount;
+  const likely = range.likely ?? stream.amount;
+  const min = Math.min(range.min ?? likely, likely);
+  const max = Math.max(range.max ?? likely, likely);
+  const factor = triangular(u, min, likely, max) / stream.amount;
+  return round2(Math.max(amount * factor, 0));
+}
+
+/**
+ * Inverse CDF of the triangular distribution: turns a uniform draw in
+ * [0, 1) into a value between min and max, most often near likely.
+ */
+function triangular(u: number, min: number, likely: number, max: number): number {
+  if (max <= min) return likely;
+  const split = (likely - min) / (max - min);
+  if (u < split) return min + Math.sqrt(u * (max - min) * (likely - min));
+  return max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+}
+
+/** A repeatable number in [0, 1) for a string key (FNV-1a, then a murmur3 finish). */
+function seededUnit(key: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    h = Math.imul(h ^ key.charCodeAt(i), 16777619);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -198,3 +198,31 @@ for (const day of baselineResult.daily.slice(0, 14)) {
     : '(no transactions)';
   console.log(`${day.date}  Chk: $${day.checking.toLocaleString().padStart(10)}  Sav: $${day.savings.toLocaleString().padStart(10)}  | ${txSummary}`);
 }
+
+// A decision that changes nothing must forecast exactly like its baseline,
+// including scenario-level settings like custom holidays and inflation
+console.log('\n--- NO-OP DECISION ---');
+const settingsBaseline: ScenarioConfig = {
+  ...baseline,
+  customHolidays: ['2026-03-16'],
+  inflationRate: 10,
+  streams: baseline.streams.map((s) => {
+    if (s.id === 'mortgage') return { ...s, businessDayShift: 'next' as const };
+    if (s.id === 'house-cleaner') return { ...s, category: 'variable' as const };
+    return s;
+  }),
+};
+const noOpDecision: DecisionConfig = {
+  id: 'decision-no-op',
+  name: 'No Change',
+  baselineId: settingsBaseline.id,
+  addStreams: [],
+  removeStreamIds: [],
+  modifyStreams: [],
+};
+const settingsResult = forecast(settingsBaseline);
+const noOpResult = forecast(applyDecision(settingsBaseline, noOpDecision));
+const noOpMatches =
+  JSON.stringify(noOpResult.daily) === JSON.stringify(settingsResult.daily) &&
+  JSON.stringify(noOpResult.metrics) === JSON.stringify(settingsResult.metrics);
+console.log(`No-op decision matches baseline: ${noOpMatches ? 'PASS' : 'FAIL'}`);
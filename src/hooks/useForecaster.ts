@@ -2,42 +2,81 @@
  * React hook that runs the forecasting engine and memoizes results.
  *
  * Computes baseline forecast once, then runs each enabled decision
- * through the engine and compares against baseline. Results update
+ * and stress test through the engine and compares against baseline.
+ * Runway (how long the money lasts if income stops) is worked out for the
+ * baseline and each decision, along with how each decision moves the
+ * scenario's savings goals. Results update
  * in real-time as the user edits their scenario.
+ *
+ * When any baseline stream has an amount range, also runs a Monte Carlo
+ * simulation of the baseline for the chart's P10–P90 band. That takes
+ * too long to redo on every keystroke, so it runs once edits pause, and
+ * only when something that moves balances has changed.
  */
 
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   forecast,
   applyDecision,
+  applyStressTest,
   compareScenarios,
+  compareGoals,
+  computeRunway,
+  runMonteCarlo,
   type ScenarioConfig,
   type DecisionConfig,
+  type StressTestConfig,
   type ForecastResult,
   type ComparisonMetrics,
+  type GoalComparison,
+  type RunwayMetrics,
+  type MonteCarloResult,
 } from '../engine';
 
+// Enough runs for usable P10/P90 bands; still a noticeable pause on a long
+// scenario, hence the delay
+const SIMULATION_RUNS = 50;
+const SIMULATION_DELAY_MS = 600;
+
 export interface DecisionForecast {
   decision: DecisionConfig;
   result: ForecastResult;
   comparison: ComparisonMetrics;
+  goals: GoalComparison[];
+  runway: RunwayMetrics;
+}
+
+export interface StressForecast {
+  stressTest: StressTestConfig;
+  result: ForecastResult;
+  comparison: ComparisonMetrics;
 }
 
 export interface ForecasterOutput {
   baselineResult: ForecastResult | null;
+  baselineRunway: RunwayMetrics | null;
   decisionForecasts: DecisionForecast[];
+  stressForecasts: StressForecast[];
+  baselineSimulation: MonteCarloResult | null;
 }
 
 export function useForecaster(
   baseline: ScenarioConfig | null,
   decisions: DecisionConfig[],
-  enabledDecisionIds: Set<string>
+  enabledDecisionIds: Set<string>,
+  stressTests: StressTestConfig[],
+  runwayStoppedIds: string[] | null // Streams that stop for runway; null = all income
 ): ForecasterOutput {
   const baselineResult = useMemo(() => {
     if (!baseline || baseline.streams.length === 0) return null;
     return forecast(baseline);
   }, [baseline]);
 
+  const baselineRunway = useMemo(() => {
+    if (!baseline || !baselineResult) return null;
+    return computeRunway(baseline, runwayStoppedIds ?? undefined);
+  }, [baseline, baselineResult, runwayStoppedIds]);
+
   const decisionForecasts = useMemo(() => {
     if (!baseline || !baselineResult) return [];
 
@@ -47,9 +86,43 @@ export function useForecaster(
         const decisionConfig = applyDecision(baseline, decision);
         const result = forecast(decisionConfig);
         const comparison = compareScenarios(baselineResult.metrics, result.metrics);
-        return { decision, result, comparison };
+        const goals = compareGoals(baselineResult.goals, result.goals);
+        const runway = computeRunway(decisionConfig, runwayStoppedIds ?? undefined);
+        return { decision, result, comparison, goals, runway };
       });
-  }, [baseline, baselineResult, decisions, enabledDecisionIds]);
+  }, [baseline, baselineResult, decisions, enabledDecisionIds, runwayStoppedIds]);
+
+  const stressForecasts = useMemo(() => {
+    if (!baseline || !baselineResult) return [];
+
+    return stressTests.map((stressTest) => {
+      const result = forecast(applyStressTest(baseline, stressTest));
+      const comparison = compareScenarios(baselineResult.metrics, result.metrics);
+      return { stressTest, result, comparison };
+    });
+  }, [baseline, baselineResult, stressTests]);
+
+  // The simulation's inputs: the baseline without fields that don't move
+  // balances (renames, goals), serialized so unrelated edits compare equal
+  const simulationKey = useMemo(() => {
+    if (!baseline || !baselineResult) return null;
+    if (!baseline.streams.some((s) => s.amountRange)) return null;
+    return JSON.stringify({ ...baseline, id: '', name: '', goals: undefined });
+  }, [baseline, baselineResult]);
+
+  const [simulation, setSimulation] = useState<{ key: string; result: MonteCarloResult } | null>(null);
+
+  useEffect(() => {
+    if (!simulationKey) return;
+    const timer = setTimeout(() => {
+      const config = JSON.parse(simulationKey) as ScenarioConfig;
+      setSimulation({ key: simulationKey, result: runMonteCarlo(config, { runs: SIMULATION_RUNS }) });
+    }, SIMULATION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [simulationKey]);
+
+  // Until the current inputs have been simulated there's no band to show
+  const baselineSimulation = simulation && simulation.key === simulationKey ? simulation.result : null;
 
-  return { baselineResult, decisionForecasts };
+  return { baselineResult, baselineRunway, decisionForecasts, stressForecasts, baselineSimulation };
 }
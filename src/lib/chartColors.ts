@@ -0,0 +1,29 @@
+/**
+ * Line colors shared by the chart and the tables keyed to it.
+ */
+
+// Color palette for decision lines (checking solid, savings light/dashed)
+export const DECISION_COLORS = [
+  { main: '#16a34a', light: '#86efac' },  // green
+  { main: '#d97706', light: '#fcd34d' },  // amber
+  { main: '#9333ea', light: '#c4b5fd' },  // purple
+  { main: '#dc2626', light: '#fca5a5' },  // red
+  { main: '#0891b2', light: '#67e8f9' },  // cyan
+  { main: '#be185d', light: '#f9a8d4' },  // pink
+];
+
+// Stress test lines (checking only, dashed)
+export const STRESS_COLORS = ['#b91c1c', '#ea580c', '#a16207'];
+
+// Spending categories in the stacked breakdown chart
+export const CATEGORY_COLORS = [
+  '#6366f1', // indigo
+  '#0ea5e9', // sky
+  '#14b8a6', // teal
+  '#84cc16', // lime
+  '#f59e0b', // amber
+  '#f97316', // orange
+  '#ec4899', // pink
+  '#8b5cf6', // violet
+  '#64748b', // slate
+];
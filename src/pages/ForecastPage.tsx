@@ -1,10 +1,16 @@
 import { useState } from 'react';
-import type { ScenarioConfig, DecisionConfig, ForecastResult } from '../engine';
-import type { DecisionForecast } from '../hooks/useForecaster';
+import type { ScenarioConfig, DecisionConfig, ForecastResult, CashStream, MonteCarloResult, RunwayMetrics, StressTestConfig } from '../engine';
+import { formatSemimonthlyDays } from '../engine';
+import type { DecisionForecast, StressForecast } from '../hooks/useForecaster';
 import type { Page } from '../components/AppShell';
 import type { ScenarioSummary } from '../store/types';
 import { ForecastChart } from '../components/ForecastChart';
+import type { ChartMode } from '../components/ForecastChart';
 import { MetricsPanel } from '../components/MetricsPanel';
+import { StressTestPanel } from '../components/StressTestPanel';
+import { GoalsPanel } from '../components/GoalsPanel';
+import { RollupTable } from '../components/RollupTable';
+import { SpendingBreakdown } from '../components/SpendingBreakdown';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -14,15 +20,30 @@ const FREQ_LABELS: Record<string, string> = {
   biweekly: '/2wk',
   semimonthly: '2x/mo',
   monthly: '/mo',
+  quarterly: '/qtr',
+  yearly: '/yr',
   'one-time': 'once',
 };
 
+function freqLabel(stream: CashStream): string {
+  if (stream.frequency === 'every-n-months') return `/${stream.intervalMonths ?? 1}mo`;
+  if (stream.frequency === 'semimonthly') return ` ${FREQ_LABELS.semimonthly} (${formatSemimonthlyDays(stream)})`;
+  return FREQ_LABELS[stream.frequency];
+}
+
 interface ForecastPageProps {
   baseline: ScenarioConfig;
   decisions: DecisionConfig[];
   enabledDecisionIds: Set<string>;
   baselineResult: ForecastResult | null;
+  baselineRunway: RunwayMetrics | null;
+  runwayStoppedIds: string[] | null;
+  onRunwayStoppedIdsChange: (ids: string[] | null) => void;
   decisionForecasts: DecisionForecast[];
+  stressTests: StressTestConfig[];
+  stressForecasts: StressForecast[];
+  onStressTestsChange: (stressTests: StressTestConfig[]) => void;
+  baselineSimulation: MonteCarloResult | null;
   scenarioList: ScenarioSummary[];
   onNavigate: (page: Page) => void;
   onSwitchScenario: (scenarioId: string) => void;
@@ -33,12 +54,20 @@ export function ForecastPage({
   decisions,
   enabledDecisionIds,
   baselineResult,
+  baselineRunway,
+  runwayStoppedIds,
+  onRunwayStoppedIdsChange,
   decisionForecasts,
+  stressTests,
+  stressForecasts,
+  onStressTestsChange,
+  baselineSimulation,
   scenarioList,
   onNavigate,
   onSwitchScenario,
 }: ForecastPageProps) {
   const [summaryOpen, setSummaryOpen] = useState(false);
+  const [chartMode, setChartMode] = useState<ChartMode>('checking');
   const allDecisionIds = decisions.map((d) => d.id);
   const enabledDecisions = decisions.filter((d) => enabledDecisionIds.has(d.id));
 
@@ -147,7 +176,7 @@ export function ForecastPage({
                       const override = (baseline.streamOverrides ?? {})[s.id];
                       return (
                         <Badge key={s.id} variant="secondary" className="tabular-nums border-primary/30 bg-accent text-primary">
-                          {s.name}: ${s.amount.toLocaleString()} &rarr; ${override.amount?.toLocaleString()}{FREQ_LABELS[s.frequency]}
+                          {s.name}: ${s.amount.toLocaleString()} &rarr; ${override.amount?.toLocaleString()}{freqLabel(s)}
                         </Badge>
                       );
                     })}
@@ -158,22 +187,85 @@ export function ForecastPage({
         </Card>
       )}
 
-      <section>
+      <section className="space-y-2">
+        <div className="flex justify-end gap-1">
+          <Button
+            size="sm"
+            variant={chartMode === 'checking' ? 'default' : 'outline'}
+            onClick={() => setChartMode('checking')}
+          >
+            Checking
+          </Button>
+          <Button
+            size="sm"
+            variant={chartMode === 'net-worth' ? 'default' : 'outline'}
+            onClick={() => setChartMode('net-worth')}
+          >
+            Net Worth
+          </Button>
+        </div>
         <ForecastChart
           baselineResult={baselineResult}
           decisionForecasts={decisionForecasts}
+          stressForecasts={stressForecasts}
+          simulation={baselineSimulation}
           safetyBuffer={baseline.safetyBuffer}
           allDecisionIds={allDecisionIds}
+          mode={chartMode}
         />
       </section>
 
       <section>
         <MetricsPanel
           baselineMetrics={baselineResult?.metrics ?? null}
+          baselineRunway={baselineRunway}
+          decisionForecasts={decisionForecasts}
+          stressForecasts={stressForecasts}
+          allDecisionIds={allDecisionIds}
+          streams={baseline.streams}
+          runwayStoppedIds={runwayStoppedIds}
+          onRunwayStoppedIdsChange={onRunwayStoppedIdsChange}
+        />
+      </section>
+
+      {(baseline.goals?.length ?? 0) > 0 && (
+        <section>
+          <GoalsPanel
+            goals={baseline.goals ?? []}
+            baselineGoals={baselineResult?.goals ?? []}
+            decisionForecasts={decisionForecasts}
+            allDecisionIds={allDecisionIds}
+          />
+        </section>
+      )}
+
+      <section>
+        <RollupTable
+          baseline={baseline}
+          baselineResult={baselineResult}
           decisionForecasts={decisionForecasts}
           allDecisionIds={allDecisionIds}
         />
       </section>
+
+      <section>
+        <SpendingBreakdown
+          baseline={baseline}
+          baselineResult={baselineResult}
+          decisionForecasts={decisionForecasts}
+          allDecisionIds={allDecisionIds}
+        />
+      </section>
+
+      <section>
+        <StressTestPanel
+          key={baseline.id}
+          streams={baseline.streams}
+          startDate={baseline.startDate}
+          stressTests={stressTests}
+          onChange={onStressTestsChange}
+        />
+      </section>
     </div>
   );
 }
@@ -5,6 +5,7 @@ import type { ScenarioSummary } from '../store/types';
 import { apiStore } from '../store/apiClient';
 import { StreamToggleList } from '../components/StreamToggleList';
 import { DecisionList } from '../components/DecisionList';
+import { DebtPayoffPlanner } from '../components/DebtPayoffPlanner';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -25,7 +26,7 @@ interface ScenariosPageProps {
   isDemo: boolean;
   onToggleStream: (streamId: string) => void;
   onOverrideStream: (streamId: string, amount: number | null) => void;
-  onAddDecision: () => void;
+  onAddDecision: (decision?: DecisionConfig) => void;
   onUpdateDecision: (updated: DecisionConfig) => void;
   onDeleteDecision: (id: string) => void;
   onToggleDecision: (id: string) => void;
@@ -101,7 +102,9 @@ export function ScenariosPage({
         <p className="text-sm text-muted-foreground mb-5">Define the new streams that come with this decision</p>
         <DecisionList
           key={baseline.id}
+          baseline={baseline}
           decisions={decisions}
+          accounts={baseline.accounts || []}
           enabledDecisionIds={enabledDecisionIds}
           allDecisionIds={allDecisionIds}
           onAdd={onAddDecision}
@@ -133,6 +136,16 @@ export function ScenariosPage({
       {/* Divider */}
       <div className="h-px bg-border" />
 
+      {/* Debt Payoff */}
+      <section>
+        <h2 className="text-lg font-semibold mb-1">Pay Off Debt</h2>
+        <p className="text-sm text-muted-foreground mb-5">Plan paying down cards and loans, then add the plan as a decision</p>
+        <DebtPayoffPlanner key={baseline.id} baseline={baseline} onAddDecision={onAddDecision} />
+      </section>
+
+      {/* Divider */}
+      <div className="h-px bg-border" />
+
       {/* Adjust Existing Streams */}
       <section>
         <h2 className="text-lg font-semibold mb-1">Adjust Existing Streams</h2>
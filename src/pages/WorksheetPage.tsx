@@ -1,9 +1,21 @@
-import { useState, useMemo } from 'react';
+import { Fragment, useState, useMemo } from 'react';
 import { v4 as uuid } from 'uuid';
-import { format } from 'date-fns';
-import type { ScenarioConfig, CashStream, StreamType, ExpenseCategory, Frequency, Account } from '../engine';
+import { format, parseISO } from 'date-fns';
+import type { ScenarioConfig, CashStream, StreamType, ExpenseCategory, Frequency, Account, Goal, SweepRule } from '../engine';
+import {
+  getLedgerAccounts,
+  resolveAccount,
+  formatSemimonthlyDays,
+  getScheduledAmount,
+  getUpcomingAmountChanges,
+  resolvePercentSource,
+  computePaycheck,
+} from '../engine';
 import { StreamEditor } from '../components/StreamEditor';
 import { AccountsSection } from '../components/AccountsSection';
+import { HolidaysSection } from '../components/HolidaysSection';
+import { GoalsSection } from '../components/GoalsSection';
+import { SweepRulesSection } from '../components/SweepRulesSection';
 import { CalculatorInput } from '../components/CalculatorInput';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -38,6 +50,9 @@ interface WorksheetPageProps {
   onAddAccount: (account: Account) => void;
   onUpdateAccount: (account: Account) => void;
   onDeleteAccount: (id: string) => void;
+  onHolidaysChange: (holidays: string[]) => void;
+  onGoalsChange: (goals: Goal[]) => void;
+  onSweepRulesChange: (sweepRules: SweepRule[]) => void;
 }
 
 const FREQUENCY_LABELS: Record<string, string> = {
@@ -45,28 +60,74 @@ const FREQUENCY_LABELS: Record<string, string> = {
   biweekly: 'Biweekly',
   semimonthly: '1st & 15th',
   monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+  'every-n-months': 'Every N months',
   'one-time': 'One-time',
 };
 
+// Every-N-months needs an interval, so it's only offered in the full editor
 const FREQUENCY_OPTIONS: { value: Frequency; label: string }[] = [
   { value: 'monthly', label: 'Monthly' },
   { value: 'biweekly', label: 'Biweekly' },
   { value: 'weekly', label: 'Weekly' },
   { value: 'semimonthly', label: '1st & 15th' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
   { value: 'one-time', label: 'One-time' },
 ];
 
+function frequencyLabel(stream: CashStream, allStreams: CashStream[]): string {
+  if (stream.percentOf) {
+    const link = resolvePercentSource(stream, allStreams);
+    return link ? `With ${link.source.name}` : 'Source stream missing';
+  }
+  if (stream.frequency === 'every-n-months') {
+    return `Every ${stream.intervalMonths ?? 1} months`;
+  }
+  if (stream.frequency === 'semimonthly') return formatSemimonthlyDays(stream);
+  return FREQUENCY_LABELS[stream.frequency];
+}
+
 const ACCOUNT_LABELS: Record<string, string> = {
   checking: 'Checking',
   savings: 'Savings',
 };
 
-function monthlyEquivalent(stream: CashStream): number {
+/** Display name for a stream's account reference. */
+function accountLabel(accounts: Account[], ref: string): string {
+  return resolveAccount(accounts, ref)?.name ?? ACCOUNT_LABELS[ref] ?? 'Checking';
+}
+
+/** What one occurrence deposits on a date: the net pay for paycheck streams. */
+function depositAmount(stream: CashStream, isoDate: string): number {
+  const amount = getScheduledAmount(stream, isoDate);
+  return stream.paycheck ? computePaycheck(amount, stream.paycheck).net : amount;
+}
+
+/**
+ * Monthly estimate at today's amount (after any step changes so far).
+ * Percentage streams are their share of the source stream's estimate —
+ * of the gross for a paycheck, as in the forecast.
+ */
+function monthlyEquivalent(stream: CashStream, allStreams: CashStream[]): number {
+  if (stream.percentOf) {
+    const link = resolvePercentSource(stream, allStreams);
+    return link ? perMonth(link.source, getScheduledAmount(link.source, todayISO())) * link.fraction : 0;
+  }
+  return perMonth(stream, depositAmount(stream, todayISO()));
+}
+
+/** One occurrence's amount spread over an average month at the stream's frequency. */
+function perMonth(stream: CashStream, amount: number): number {
   switch (stream.frequency) {
-    case 'weekly': return stream.amount * 52 / 12;
-    case 'biweekly': return stream.amount * 26 / 12;
-    case 'semimonthly': return stream.amount * 2;
-    case 'monthly': return stream.amount;
+    case 'weekly': return amount * 52 / 12;
+    case 'biweekly': return amount * 26 / 12;
+    case 'semimonthly': return amount * 2;
+    case 'monthly': return amount;
+    case 'quarterly': return amount / 3;
+    case 'yearly': return amount / 12;
+    case 'every-n-months': return amount / Math.max(1, stream.intervalMonths ?? 1);
     case 'one-time': return 0;
   }
 }
@@ -79,7 +140,7 @@ function todayISO(): string {
   return format(new Date(), 'yyyy-MM-dd');
 }
 
-export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddStream, onSetupChange, onAddAccount, onUpdateAccount, onDeleteAccount }: WorksheetPageProps) {
+export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddStream, onSetupChange, onAddAccount, onUpdateAccount, onDeleteAccount, onHolidaysChange, onGoalsChange, onSweepRulesChange }: WorksheetPageProps) {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [addingStreamConfig, setAddingStreamConfig] = useState<{ type: StreamType; category?: ExpenseCategory } | null>(null);
 
@@ -94,14 +155,15 @@ export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddS
   }, [baseline.streams]);
 
   const totals = useMemo(() => {
-    const totalIncome = incomeStreams.reduce((sum, s) => sum + monthlyEquivalent(s), 0);
-    const totalFixed = fixedExpenses.reduce((sum, s) => sum + monthlyEquivalent(s), 0);
-    const totalVariable = variableExpenses.reduce((sum, s) => sum + monthlyEquivalent(s), 0);
-    const totalTransfers = transferStreams.reduce((sum, s) => sum + monthlyEquivalent(s), 0);
+    const all = baseline.streams;
+    const totalIncome = incomeStreams.reduce((sum, s) => sum + monthlyEquivalent(s, all), 0);
+    const totalFixed = fixedExpenses.reduce((sum, s) => sum + monthlyEquivalent(s, all), 0);
+    const totalVariable = variableExpenses.reduce((sum, s) => sum + monthlyEquivalent(s, all), 0);
+    const totalTransfers = transferStreams.reduce((sum, s) => sum + monthlyEquivalent(s, all), 0);
     const totalExpenses = totalFixed + totalVariable;
     const netCashflow = totalIncome - totalExpenses - totalTransfers;
     return { totalIncome, totalFixed, totalVariable, totalTransfers, totalExpenses, netCashflow };
-  }, [incomeStreams, fixedExpenses, variableExpenses, transferStreams]);
+  }, [baseline.streams, incomeStreams, fixedExpenses, variableExpenses, transferStreams]);
 
   // Dialog state
   const editingStream = editingId ? baseline.streams.find((s) => s.id === editingId) ?? null : null;
@@ -159,6 +221,13 @@ export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddS
         <EditableBalance label="Safety Buffer" value={baseline.safetyBuffer} field="safetyBuffer" onChange={onSetupChange} />
         <EditableDate label="Start Date" value={baseline.startDate} field="startDate" onChange={onSetupChange} />
         <EditableDate label="End Date" value={baseline.endDate} field="endDate" onChange={onSetupChange} />
+        <EditableBalance
+          label="Inflation (Variable)"
+          value={baseline.inflationRate ?? 0}
+          field="inflationRate"
+          onChange={onSetupChange}
+          format={(v) => `${v}%/yr`}
+        />
       </div>
 
       {/* Accounts */}
@@ -166,12 +235,45 @@ export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddS
         <h2 className="text-lg font-semibold">Accounts</h2>
         <AccountsSection
           accounts={baseline.accounts || []}
+          streams={baseline.streams}
           onAdd={onAddAccount}
           onUpdate={onUpdateAccount}
           onDelete={onDeleteAccount}
         />
       </section>
 
+      {/* Sweep Rules */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Sweep Rules</h2>
+        <SweepRulesSection
+          sweepRules={baseline.sweepRules ?? []}
+          accounts={getLedgerAccounts(baseline)}
+          safetyBuffer={baseline.safetyBuffer}
+          onChange={onSweepRulesChange}
+        />
+      </section>
+
+      {/* Goals */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Savings Goals</h2>
+        <GoalsSection
+          goals={baseline.goals ?? []}
+          accounts={getLedgerAccounts(baseline)}
+          defaultTargetDate={baseline.endDate}
+          onChange={onGoalsChange}
+        />
+      </section>
+
+      {/* Holidays */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Bank Holidays</h2>
+        <HolidaysSection
+          customHolidays={baseline.customHolidays ?? []}
+          year={Number(baseline.startDate.slice(0, 4))}
+          onChange={onHolidaysChange}
+        />
+      </section>
+
       {/* Stream Tables */}
       <WorksheetTable
         title="Income"
@@ -184,6 +286,8 @@ export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddS
         onAdd={onAddStream}
         onAddFull={() => setAddingStreamConfig({ type: 'income' })}
         startDate={baseline.startDate}
+        accounts={baseline.accounts || []}
+        allStreams={baseline.streams}
         headerClassName="bg-income/5"
         emptyHint="No income streams yet. Add your paycheck or other income below."
       />
@@ -200,6 +304,8 @@ export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddS
         onAdd={onAddStream}
         onAddFull={() => setAddingStreamConfig({ type: 'expense', category: 'fixed' })}
         startDate={baseline.startDate}
+        accounts={baseline.accounts || []}
+        allStreams={baseline.streams}
         headerClassName="bg-expense/5"
         emptyHint="No fixed expenses yet. Add recurring bills like rent or insurance."
       />
@@ -216,6 +322,8 @@ export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddS
         onAdd={onAddStream}
         onAddFull={() => setAddingStreamConfig({ type: 'expense', category: 'variable' })}
         startDate={baseline.startDate}
+        accounts={baseline.accounts || []}
+        allStreams={baseline.streams}
         headerClassName="bg-expense/5"
         emptyHint="No variable expenses yet. Add things like groceries or entertainment."
       />
@@ -231,6 +339,8 @@ export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddS
         onAdd={onAddStream}
         onAddFull={() => setAddingStreamConfig({ type: 'transfer' })}
         startDate={baseline.startDate}
+        accounts={baseline.accounts || []}
+        allStreams={baseline.streams}
         headerClassName="bg-transfer/5"
         emptyHint="No transfers set up. Add savings or investment contributions."
       />
@@ -247,6 +357,8 @@ export function WorksheetPage({ baseline, onUpdateStream, onDeleteStream, onAddS
           {isDialogOpen && (
             <StreamEditor
               stream={editingStream ?? undefined}
+              accounts={baseline.accounts || []}
+              streams={baseline.streams}
               defaultType={addingStreamConfig?.type}
               defaultCategory={addingStreamConfig?.category}
               onSave={handleDialogSave}
@@ -279,9 +391,10 @@ interface EditableBalanceProps {
   value: number;
   field: string;
   onChange: (field: string, value: number | string) => void;
+  format?: (value: number) => string; // Defaults to currency
 }
 
-function EditableBalance({ label, value, field, onChange }: EditableBalanceProps) {
+function EditableBalance({ label, value, field, onChange, format = formatCurrency }: EditableBalanceProps) {
   const [editing, setEditing] = useState(false);
   const [draft, setDraft] = useState(value);
 
@@ -319,7 +432,7 @@ function EditableBalance({ label, value, field, onChange }: EditableBalanceProps
     >
       <span className="text-xs font-medium uppercase tracking-wider text-muted-foreground">{label}</span>
       <span className="text-sm tabular-nums">
-        {formatCurrency(value)}
+        {format(value)}
         <span className="ml-2 text-xs text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity">
           click to edit
         </span>
@@ -328,6 +441,41 @@ function EditableBalance({ label, value, field, onChange }: EditableBalanceProps
   );
 }
 
+/* ---------- Amount Cell ---------- */
+
+/**
+ * Today's amount, plus a marker for the next step change if one is coming.
+ * Percentage streams show their percentage instead; paycheck streams show
+ * their net deposit with the gross below it.
+ */
+function AmountCell({ stream }: { stream: CashStream }) {
+  if (stream.percentOf) return <span>{stream.percentage ?? 0}%</span>;
+
+  const today = todayISO();
+  const upcoming = getUpcomingAmountChanges(stream, today);
+  const next = upcoming[0];
+
+  return (
+    <div className="flex flex-col items-end">
+      <span>{formatCurrency(depositAmount(stream, today))}</span>
+      {stream.paycheck && (
+        <span className="text-xs text-muted-foreground">
+          {formatCurrency(getScheduledAmount(stream, today))} gross
+        </span>
+      )}
+      {next && (
+        <span
+          className="text-xs text-muted-foreground"
+          title={upcoming.map((c) => `${formatCurrency(c.amount)} from ${c.date}`).join('\n')}
+        >
+          → {formatCurrency(next.amount)}{stream.paycheck && ' gross'} on {format(parseISO(next.date), 'MMM d, yyyy')}
+          {upcoming.length > 1 && ` (+${upcoming.length - 1})`}
+        </span>
+      )}
+    </div>
+  );
+}
+
 /* ---------- Editable Date ---------- */
 
 interface EditableDateProps {
@@ -384,6 +532,45 @@ function EditableDate({ label, value, field, onChange }: EditableDateProps) {
   );
 }
 
+/* ---------- Paycheck Breakdown ---------- */
+
+const PAYCHECK_SECTION_LABELS = {
+  'pre-tax': 'Pre-tax',
+  withholding: 'Withholding',
+  'post-tax': 'Post-tax',
+};
+
+/** Gross → deductions → net for one paycheck at today's gross pay. */
+function PaycheckBreakdownRow({ stream }: { stream: CashStream }) {
+  const breakdown = computePaycheck(getScheduledAmount(stream, todayISO()), stream.paycheck ?? {});
+
+  return (
+    <TableRow className="hover:bg-transparent bg-muted/30">
+      <TableCell colSpan={6} className="py-2">
+        <div className="ml-4 grid max-w-md grid-cols-[1fr_auto_auto] gap-x-6 gap-y-0.5 text-xs tabular-nums">
+          <span className="font-medium">Gross pay</span>
+          <span />
+          <span className="text-right">{formatCents(breakdown.gross)}</span>
+          {breakdown.deductions.map((d, i) => (
+            <Fragment key={i}>
+              <span>{d.name || 'Unnamed'}</span>
+              <span className="text-muted-foreground">{PAYCHECK_SECTION_LABELS[d.section]}</span>
+              <span className="text-right text-expense">−{formatCents(d.amount)}</span>
+            </Fragment>
+          ))}
+          <span className="font-medium">Net deposit</span>
+          <span />
+          <span className="text-right font-medium">{formatCents(breakdown.net)}</span>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function formatCents(value: number): string {
+  return '$' + value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
 /* ---------- WorksheetTable ---------- */
 
 interface WorksheetTableProps {
@@ -398,6 +585,8 @@ interface WorksheetTableProps {
   onAdd: (stream: CashStream) => void;
   onAddFull?: () => void;
   startDate: string;
+  accounts: Account[];
+  allStreams: CashStream[]; // Every stream, for percentage stream sources
   headerClassName?: string;
   emptyHint?: string;
 }
@@ -414,12 +603,15 @@ function WorksheetTable({
   onAdd,
   onAddFull,
   startDate,
+  accounts,
+  allStreams,
   headerClassName,
   emptyHint,
 }: WorksheetTableProps) {
   const [quickName, setQuickName] = useState('');
   const [quickAmount, setQuickAmount] = useState(0);
   const [quickFrequency, setQuickFrequency] = useState<Frequency>('monthly');
+  const [expandedPaycheckId, setExpandedPaycheckId] = useState<string | null>(null);
 
   function handleQuickAdd() {
     const name = quickName.trim();
@@ -489,40 +681,56 @@ function WorksheetTable({
             </TableRow>
           )}
           {streams.map((stream) => (
-            <TableRow key={stream.id} className="group">
-              <TableCell className="font-medium">{stream.name}</TableCell>
-              <TableCell className="text-right tabular-nums">{formatCurrency(stream.amount)}</TableCell>
-              <TableCell>{FREQUENCY_LABELS[stream.frequency]}</TableCell>
-              <TableCell>
-                {ACCOUNT_LABELS[stream.account]}
-                {stream.targetAccount && ` → ${ACCOUNT_LABELS[stream.targetAccount]}`}
-              </TableCell>
-              <TableCell className="text-right tabular-nums">
-                {stream.frequency === 'one-time' ? '—' : formatCurrency(monthlyEquivalent(stream))}
-              </TableCell>
-              <TableCell className="text-right">
-                <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
-                  <Button variant="ghost" size="xs" onClick={() => onEdit(stream.id)}>Edit</Button>
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="ghost" size="xs" className="text-destructive hover:text-destructive">Delete</Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Delete &ldquo;{stream.name}&rdquo;?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          This will permanently remove this stream from your cash flow. This action cannot be undone.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction variant="destructive" onClick={() => onDelete(stream.id)}>Delete</AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </div>
-              </TableCell>
-            </TableRow>
+            <Fragment key={stream.id}>
+              <TableRow className="group">
+                <TableCell className="font-medium">
+                  {stream.name}
+                  {stream.paycheck && (
+                    <button
+                      type="button"
+                      className="ml-2 text-xs font-normal text-muted-foreground hover:text-foreground cursor-pointer"
+                      onClick={() => setExpandedPaycheckId(expandedPaycheckId === stream.id ? null : stream.id)}
+                    >
+                      {expandedPaycheckId === stream.id ? 'hide breakdown' : 'breakdown'}
+                    </button>
+                  )}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  <AmountCell stream={stream} />
+                </TableCell>
+                <TableCell>{frequencyLabel(stream, allStreams)}</TableCell>
+                <TableCell>
+                  {accountLabel(accounts, stream.account)}
+                  {stream.targetAccount && ` → ${accountLabel(accounts, stream.targetAccount)}`}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {stream.frequency === 'one-time' ? '—' : formatCurrency(monthlyEquivalent(stream, allStreams))}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <Button variant="ghost" size="xs" onClick={() => onEdit(stream.id)}>Edit</Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="xs" className="text-destructive hover:text-destructive">Delete</Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete &ldquo;{stream.name}&rdquo;?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This will permanently remove this stream from your cash flow. This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction variant="destructive" onClick={() => onDelete(stream.id)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </TableCell>
+              </TableRow>
+              {expandedPaycheckId === stream.id && stream.paycheck && <PaycheckBreakdownRow stream={stream} />}
+            </Fragment>
           ))}
           {/* Quick-add row */}
           <TableRow className="hover:bg-transparent bg-muted/40 border-t-2 border-dashed">